@@ -1,5 +1,13 @@
+import ThemeSwitcher from "../theme-switcher/theme-switcher";
+import { cx } from "../../../utils/cx";
+
 const Footer = () => {
-  return <div className="footer p--200">footer</div>;
+  return (
+    <div className={`footer ${cx("p--200")}`}>
+      footer
+      <ThemeSwitcher />
+    </div>
+  );
 };
 
 export default Footer;
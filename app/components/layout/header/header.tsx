@@ -1,9 +1,13 @@
 import { useLayoutActionsToggleSidebar } from "../../../context/layout/layout";
+import { cx } from "../../../utils/cx";
 
 const Header = () => {
   const toggleSidebar = useLayoutActionsToggleSidebar();
   return (
-    <div className="header p--200 c-bg--fourth" onClick={toggleSidebar}>
+    <div
+      className={`header ${cx("p--200", "c-bg--fourth")}`}
+      onClick={toggleSidebar}
+    >
       header
     </div>
   );
@@ -0,0 +1,55 @@
+import { useFetcher, useLocation } from "react-router";
+
+import {
+  THEME_ACTION,
+  THEME_PREFERENCES,
+  useThemePreference,
+  type ThemePreference,
+} from "~/utils/theme";
+
+// "high-contrast" -> "High contrast"
+function themeLabel(preference: ThemePreference): string {
+  const label = preference.replace(/-/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+// Applies on change; without JavaScript the form posts and redirects back
+const ThemeSwitcher = () => {
+  const fetcher = useFetcher();
+  const location = useLocation();
+  const preference = useThemePreference();
+
+  return (
+    <fetcher.Form method="post" action={THEME_ACTION}>
+      <input
+        type="hidden"
+        name="redirectTo"
+        value={location.pathname + location.search}
+      />
+      <label>
+        Theme{" "}
+        <select
+          name="theme"
+          value={preference}
+          onChange={(event) =>
+            fetcher.submit(
+              { theme: event.currentTarget.value },
+              { method: "post", action: THEME_ACTION }
+            )
+          }
+        >
+          {THEME_PREFERENCES.map((option) => (
+            <option key={option} value={option}>
+              {themeLabel(option)}
+            </option>
+          ))}
+        </select>
+      </label>
+      <noscript>
+        <button type="submit">Apply</button>
+      </noscript>
+    </fetcher.Form>
+  );
+};
+
+export default ThemeSwitcher;
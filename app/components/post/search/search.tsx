@@ -1,18 +1,20 @@
 import { useFetcher } from "react-router";
 
+import { cx } from "../../../utils/cx";
+
 export function Search() {
   const fetcher = useFetcher();
 
   console.log("Fetcher data:", fetcher.data);
 
   return (
-    <div className="p--200">
+    <div className={cx("p--200")}>
       <fetcher.Form method="get" action="/search">
         <input
           type="text"
           name="q"
           placeholder="Search vowels..."
-          className="p--100 bd--s"
+          className={cx("p--100", "b--sm")}
           onChange={(e) => {
             fetcher.submit(e.currentTarget.form);
           }}
@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react";
+
+// Per-request CSP nonce, provided by entry.server.tsx (production only)
+const NonceContext = createContext<string | undefined>(undefined);
+
+export const NonceProvider = ({
+  nonce,
+  children,
+}: {
+  nonce?: string;
+  children: React.ReactNode;
+}) => {
+  return (
+    <NonceContext.Provider value={nonce}>{children}</NonceContext.Provider>
+  );
+};
+
+export const useNonce = () => useContext(NonceContext);
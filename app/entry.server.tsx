@@ -1,93 +1,308 @@
-import { Transform } from "node:stream";
 import { createReadableStreamFromReadable } from "@react-router/node";
-import { ServerRouter } from "react-router";
+import { ServerRouter, isRouteErrorResponse } from "react-router";
 import { isbot } from "isbot";
 import { renderToPipeableStream } from "react-dom/server";
 import { jsx } from "react/jsx-runtime";
-import { processCriticalCSS } from "./utils/beasties-processor";
+import {
+  getCriticalCSSRewrite,
+  getViewportVariant,
+  hasViewportVariants,
+} from "./utils/beasties-processor";
+import { createHtmlRewriteStream } from "./utils/html-rewriter";
+import { applySecurityHeaders, createNonce } from "./utils/security-headers";
+import {
+  getPreloadLinks,
+  type EarlyHintsLoadContext,
+  type PreloadAssetsManifest,
+} from "./utils/preload-links";
+import { applyViewportHintHeaders, readViewportHints } from "./utils/viewport";
+import {
+  createHtmlCacheEntry,
+  createMemoryHtmlCacheStore,
+  getHtmlCachePolicy,
+  htmlCacheAge,
+  htmlCacheKey,
+  htmlCacheState,
+  isCacheableRequest,
+  isCacheableResponse,
+  restoreCachedHtml,
+  type HtmlCacheLoadContext,
+  type HtmlCachePolicy,
+  type HtmlCacheStore,
+} from "./utils/html-cache";
+import {
+  renderErrorDocument,
+  reportSsrError,
+  shellErrorStatus,
+  type SsrErrorLoadContext,
+} from "./utils/ssr-errors";
+import { NonceProvider } from "./context/nonce/nonce";
 
+// React Router rejects pending deferred data after this delay; the render
+// is aborted a second later so the rejected boundaries can still flush
 const streamTimeout = 5000;
+const renderTimeout = streamTimeout + 1000;
+
+// Set by React Router while it prerenders pages (and the SPA index.html)
+// at build time: the HTML is written to static files
+function isBuildTimeRender(): boolean {
+  return process.env.IS_RR_BUILD_REQUEST === "yes";
+}
+
+type DocumentLoadContext = EarlyHintsLoadContext &
+  SsrErrorLoadContext &
+  HtmlCacheLoadContext;
 
 interface RouterContext {
   isSpaMode?: boolean;
+  manifest: PreloadAssetsManifest;
+  routeModules: Record<string, { handle?: unknown } | undefined>;
+  staticHandlerContext?: {
+    matches: Array<{ route: { id: string } }>;
+  };
+}
+
+interface DocumentRender {
+  request: Request;
+  responseStatusCode: number;
+  responseHeaders: Headers;
+  routerContext: RouterContext;
+  loadContext?: DocumentLoadContext;
+  routeIds: string[];
+  nonce?: string;
+}
+
+// Set when the document is incomplete (render error, timeout, abort)
+interface RenderState {
+  failed: boolean;
 }
 
-function handleDocumentRequestFunction(
+// Default store of the HTML cache, per server process
+const htmlCacheStore = createMemoryHtmlCacheStore();
+// Cache keys being re-rendered in the background
+const revalidating = new Set<string>();
+
+const HTML_CACHE_HEADER = "X-HTML-Cache";
+
+async function handleDocumentRequestFunction(
   request: Request,
   responseStatusCode: number,
   responseHeaders: Headers,
-  routerContext: RouterContext
+  routerContext: RouterContext,
+  loadContext?: DocumentLoadContext
 ): Promise<Response> {
+  // Per-request CSP nonce (production only, see security-headers.ts); a
+  // static file has no per-request headers to allow it in
+  const nonce =
+    import.meta.env.PROD && !isBuildTimeRender() ? createNonce() : undefined;
+  applySecurityHeaders(responseHeaders, nonce);
+  // Only when the document depends on the viewport: Vary splits caches
+  if (await hasViewportVariants()) {
+    applyViewportHintHeaders(responseHeaders);
+  }
+
+  // Matched route ids select the route-scoped critical CSS and preloads
+  const routeIds =
+    routerContext.staticHandlerContext?.matches.map(
+      (match) => match.route.id
+    ) ?? [];
+
+  // Announce fonts, stylesheets and route modules before the HTML is ready
+  const preloadLinks = await getPreloadLinks(routerContext.manifest, routeIds);
+  if (preloadLinks.length > 0) {
+    loadContext?.earlyHints?.(preloadLinks);
+    responseHeaders.set("Link", preloadLinks.join(", "));
+  }
+
   if (request.method.toUpperCase() === "HEAD") {
-    return Promise.resolve(
-      new Response(null, {
-        status: responseStatusCode,
-        headers: responseHeaders,
-      })
+    return new Response(null, {
+      status: responseStatusCode,
+      headers: responseHeaders,
+    });
+  }
+
+  const render: DocumentRender = {
+    request,
+    responseStatusCode,
+    responseHeaders,
+    routerContext,
+    loadContext,
+    routeIds,
+    nonce,
+  };
+
+  // Pages opting in are served from the HTML cache (see html-cache.ts)
+  const policy = getHtmlCachePolicy(routerContext.routeModules, routeIds);
+  const store = loadContext?.htmlCache ?? htmlCacheStore;
+  if (
+    !import.meta.env.PROD ||
+    !policy ||
+    !store ||
+    !isCacheableRequest(request) ||
+    !isCacheableResponse(responseStatusCode, responseHeaders)
+  ) {
+    return renderDocument(render);
+  }
+
+  const key = htmlCacheKey(request, {
+    viewport: await getViewportVariant(readViewportHints(request.headers)),
+    bot: isbot(request.headers.get("user-agent")),
+  });
+  const entry = await store.get(key).catch((error: unknown) => {
+    console.error("[HTML Cache] ❌ Store read failed:", error);
+    return undefined;
+  });
+  const state = entry ? htmlCacheState(entry) : "expired";
+
+  if (entry && state !== "expired") {
+    if (state === "stale") {
+      void revalidate(store, key, policy, render);
+    }
+    responseHeaders.set("Content-Type", "text/html");
+    responseHeaders.set("Age", htmlCacheAge(entry));
+    responseHeaders.set(HTML_CACHE_HEADER, state === "fresh" ? "HIT" : "STALE");
+    return new Response(restoreCachedHtml(entry, nonce), {
+      status: responseStatusCode,
+      headers: responseHeaders,
+    });
+  }
+
+  // Stream the document and store a copy once it is complete
+  responseHeaders.set(HTML_CACHE_HEADER, "MISS");
+  const renderState: RenderState = { failed: false };
+  const response = await renderDocument(render, renderState);
+  if (!response.body || response.status !== 200) {
+    return response;
+  }
+
+  const [body, copy] = response.body.tee();
+  void new Response(copy).text().then(
+    async (html) => {
+      if (renderState.failed || request.signal.aborted) return;
+      try {
+        await store.set(key, createHtmlCacheEntry(html, policy, nonce));
+      } catch (error) {
+        console.error("[HTML Cache] ❌ Store write failed:", error);
+      }
+    },
+    // The client disconnected or the render was aborted: nothing to store
+    () => {}
+  );
+
+  return new Response(body, {
+    headers: response.headers,
+    status: response.status,
+  });
+}
+
+/**
+ * Re-render a stale page for the cache, detached from the request that
+ * found it (its client already got the stale copy and may leave)
+ */
+async function revalidate(
+  store: HtmlCacheStore,
+  key: string,
+  policy: HtmlCachePolicy,
+  render: DocumentRender
+): Promise<void> {
+  if (revalidating.has(key)) return;
+  revalidating.add(key);
+
+  try {
+    const nonce = createNonce();
+    const renderState: RenderState = { failed: false };
+    const response = await renderDocument(
+      {
+        ...render,
+        request: new Request(render.request.url, {
+          headers: render.request.headers,
+        }),
+        responseHeaders: new Headers(render.responseHeaders),
+        nonce,
+      },
+      renderState
     );
+    const html = await response.text();
+
+    if (response.status === 200 && !renderState.failed) {
+      await store.set(key, createHtmlCacheEntry(html, policy, nonce));
+    }
+  } catch (error) {
+    console.error("[HTML Cache] ❌ Revalidation failed:", error);
+  } finally {
+    revalidating.delete(key);
   }
+}
 
-  return new Promise((resolve, reject) => {
+/**
+ * Render the document: streamed to browsers once the shell is ready,
+ * complete for bots, with the critical CSS rewrite applied to its head
+ */
+function renderDocument(
+  {
+    request,
+    responseStatusCode,
+    responseHeaders,
+    routerContext,
+    loadContext,
+    routeIds,
+    nonce,
+  }: DocumentRender,
+  renderState: RenderState = { failed: false }
+): Promise<Response> {
+  return new Promise((resolve) => {
     let shellRendered = false;
+    let timedOut = false;
     const userAgent = request.headers.get("user-agent");
     const readyOption =
-      (userAgent && isbot(userAgent)) || routerContext.isSpaMode
+      (userAgent && isbot(userAgent)) ||
+      routerContext.isSpaMode ||
+      isBuildTimeRender()
         ? "onAllReady"
         : "onShellReady";
 
-    // Buffer for capturing the shell
-    const chunks: Buffer[] = [];
+    // Stop rendering when it takes too long (hung deferred data) or when
+    // the client has gone away, so the socket is not held open
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      abort();
+    }, renderTimeout);
+    const onClientAbort = () => abort();
+    request.signal.addEventListener("abort", onClientAbort, { once: true });
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      request.signal.removeEventListener("abort", onClientAbort);
+    };
 
-    const { pipe } = renderToPipeableStream(
-      jsx(ServerRouter, { context: routerContext, url: request.url }),
+    const { pipe, abort } = renderToPipeableStream(
+      jsx(NonceProvider, {
+        nonce,
+        children: jsx(ServerRouter, {
+          context: routerContext,
+          url: request.url,
+          nonce,
+        }),
+      }),
       {
+        nonce,
         [readyOption]: async () => {
           shellRendered = true;
 
-          // Create a transform stream to buffer and process the shell
-          let shellProcessed = false;
-          const transformStream = new Transform({
-            transform(
-              chunk: Buffer,
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              encoding: any,
-              callback: (error?: Error | null, data?: Buffer | string) => void
-            ): void {
-              if (!shellProcessed) {
-                chunks.push(chunk);
-                const concatenated = Buffer.concat(chunks).toString("utf-8");
-
-                // Check if shell (head section) is complete
-                if (concatenated.includes("</head>")) {
-                  shellProcessed = true;
-                  console.log(
-                    "[SSR] Shell buffer complete, triggering Beasties processing..."
-                  );
-
-                  // Process asynchronously
-                  processCriticalCSS(concatenated)
-                    .then((processed) => {
-                      console.log(
-                        "[SSR] Shell processed, sending to client..."
-                      );
-                      chunks.length = 0; // Clear the buffer
-                      callback(null, processed);
-                    })
-                    .catch((error) => {
-                      console.error("[SSR] Processing error:", error);
-                      chunks.length = 0; // Clear the buffer
-                      callback(null, concatenated);
-                    });
-                } else {
-                  // Keep buffering - call callback to continue
-                  callback();
-                }
-              } else {
-                // Shell already processed, pass through remaining chunks
-                callback(null, chunk);
-              }
-            },
-          });
+          // Rewrite the head as it streams: inline critical CSS and drop
+          // the external links it replaces (chunk-boundary safe)
+          const transformStream = createHtmlRewriteStream(
+            getCriticalCSSRewrite({
+              routeIds,
+              nonce,
+              viewportHints: readViewportHints(request.headers),
+            }).catch((error) => {
+              console.error("[SSR] Processing error:", error);
+              return {};
+            })
+          );
+
+          // Ended by React, or destroyed when the client cancels the body
+          transformStream.once("close", cleanup);
 
           const stream = createReadableStreamFromReadable(transformStream);
           responseHeaders.set("Content-Type", "text/html");
@@ -101,18 +316,65 @@ function handleDocumentRequestFunction(
           );
         },
         onShellError(error: unknown) {
-          reject(error);
+          renderState.failed = true;
+          cleanup();
+          if (!request.signal.aborted) {
+            reportSsrError(loadContext, error, {
+              phase: timedOut ? "timeout" : "shell",
+              request,
+            });
+          }
+
+          // Nothing was sent yet: answer with a static document instead
+          const status = shellErrorStatus(responseStatusCode);
+          responseHeaders.delete("Link");
+          responseHeaders.set("Content-Type", "text/html; charset=utf-8");
+          responseHeaders.set("Cache-Control", "no-store");
+          resolve(
+            new Response(renderErrorDocument(status, nonce), {
+              headers: responseHeaders,
+              status,
+            })
+          );
         },
         onError(error: unknown) {
-          responseStatusCode = 500;
-          if (shellRendered) {
-            console.error("Error during rendering:", error);
+          renderState.failed = true;
+
+          // Aborted because the client left: nobody to report to
+          if (request.signal.aborted) return;
+
+          // Before the shell, the status can still change; the shell's own
+          // failure is reported by onShellError
+          if (!shellRendered) {
+            responseStatusCode = 500;
+            if (!timedOut) return;
           }
+          reportSsrError(loadContext, error, {
+            phase: timedOut ? "timeout" : "stream",
+            request,
+          });
         },
       }
     );
   });
 }
 
+/**
+ * React Router's hook for errors in loaders, actions and server rendering
+ * (aborted requests and 404s for unmatched URLs are expected and not
+ * reported)
+ */
+export function handleError(
+  error: unknown,
+  { request, context }: { request: Request; context: unknown }
+): void {
+  if (request.signal.aborted) return;
+  if (isRouteErrorResponse(error) && error.status === 404) return;
+  reportSsrError(context as SsrErrorLoadContext | undefined, error, {
+    phase: "request",
+    request,
+  });
+}
+
 export default handleDocumentRequestFunction;
 export { streamTimeout };
@@ -9,32 +9,45 @@ import {
 
 import type { Route } from "./+types/root";
 
+import criticalCssConfig from "../critical-css.config";
+
 import { LayoutProvider } from "./context/layout/layout";
+import { useNonce } from "./context/nonce/nonce";
+import { getPreloadFontHrefs } from "./utils/fonts";
+import { getThemePreference, useThemePreference } from "./utils/theme";
 
 import "./app.scss";
 
-// In development mode, import non-critical CSS for HMR support
-// In production, non-critical CSS is lazy-loaded via beasties-processor
+// In development mode, import non-critical and deferred CSS for HMR support
+// In production, both are linked by beasties-processor
 if (import.meta.env.DEV) {
   import("./styles/non-critical-entry.scss");
+  import("./styles/deferred-entry.scss");
 }
 
-export const links: Route.LinksFunction = () => [
-  { rel: "preconnect", href: "https://fonts.googleapis.com" },
-  {
-    rel: "preconnect",
-    href: "https://fonts.gstatic.com",
+// Self-hosted fonts: @font-face rules are inlined with the critical CSS,
+// only the faces used above the fold are preloaded
+export const links: Route.LinksFunction = () =>
+  getPreloadFontHrefs(criticalCssConfig).map((href) => ({
+    rel: "preload",
+    href,
+    as: "font",
+    type: "font/woff2",
     crossOrigin: "anonymous",
-  },
-  {
-    rel: "stylesheet",
-    href: "https://fonts.googleapis.com/css2?family=Noto+Sans:wght@300;500;700&display=swap",
-  },
-];
+  }));
+
+// Theme preference cookie, rendered as <html data-theme> so the first
+// paint already has the right colors (see app/utils/theme.ts)
+export async function loader({ request }: Route.LoaderArgs) {
+  return { theme: await getThemePreference(request) };
+}
 
 export function Layout({ children }: { children: React.ReactNode }) {
+  const nonce = useNonce();
+  const theme = useThemePreference();
+
   return (
-    <html lang="en">
+    <html lang="en" data-theme={theme === "system" ? undefined : theme}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -43,8 +56,8 @@ export function Layout({ children }: { children: React.ReactNode }) {
       </head>
       <body>
         <LayoutProvider>{children}</LayoutProvider>
-        <ScrollRestoration />
-        <Scripts />
+        <ScrollRestoration nonce={nonce} />
+        <Scripts nonce={nonce} />
       </body>
     </html>
   );
@@ -7,9 +7,12 @@ import {
 
 export default [
   layout("routes/layout.tsx", [
-    index("routes/home.tsx"),
-    route(":slug", "routes/post.tsx"),
+    index("routes/home.tsx", { id: "home" }),
+    route(":slug", "routes/post.tsx", { id: "post" }),
+  ]),
+  layout("routes/about/layout.tsx", [
+    route("about", "routes/about/about.tsx", { id: "about" }),
   ]),
-  layout("routes/about/layout.tsx", [route("about", "routes/about/about.tsx")]),
   route("search", "routes/proxy/search.tsx"),
+  route("theme", "routes/theme.tsx"),
 ] satisfies RouteConfig;
@@ -1,4 +1,5 @@
 import { About } from "../../views/about/about";
+import type { HtmlCacheHandle } from "../../utils/html-cache";
 
 export function meta() {
   return [
@@ -7,6 +8,11 @@ export function meta() {
   ];
 }
 
+// Rarely changes: served from the HTML cache, re-rendered every 5 minutes
+export const handle: HtmlCacheHandle = {
+  htmlCache: { maxAge: 300, staleWhileRevalidate: 3600 },
+};
+
 export default function AboutRoute() {
   return <About />;
 }
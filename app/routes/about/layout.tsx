@@ -1,12 +1,14 @@
 import { Outlet } from "react-router";
 
+import { cx } from "~/utils/cx";
+
 function AboutLayout() {
   return (
-    <div className="flex gap--200 p--200">
-      <div className="flex-item-stretch">
+    <div className={cx("flex", "gap--200", "p--200")}>
+      <div className={cx("flex-item-stretch")}>
         <Outlet />
       </div>
-      <div className="p--200 c-bg--fourth">sidebar</div>
+      <div className={cx("p--200", "c-bg--fourth")}>sidebar</div>
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import type { Route } from "./+types/post";
 
+import { throwUpstreamResponse } from "../services/http-client";
 import * as postServices from "../services/post";
 
 import { Post } from "../views/post/post";
@@ -11,8 +12,11 @@ export function meta() {
   ];
 }
 
-export async function loader({ params }: Route.LoaderArgs) {
-  const product = await postServices.getDataBySlug(params.slug);
+// Upstream 404 renders the 404 page, outages a 502 / 504
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const product = await postServices
+    .getDataBySlug(params.slug, request.signal)
+    .catch(throwUpstreamResponse);
   return product;
 }
 
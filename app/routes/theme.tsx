@@ -0,0 +1,33 @@
+import { data, redirect } from "react-router";
+
+import type { Route } from "./+types/theme";
+
+import {
+  getThemePreference,
+  isThemePreference,
+  localRedirectPath,
+  themeCookie,
+} from "~/utils/theme";
+
+// Current color theme preference
+export async function loader({ request }: Route.LoaderArgs) {
+  return { theme: await getThemePreference(request) };
+}
+
+// Store the color theme preference (see app/utils/theme.ts). Fetcher
+// submissions get the cookie back; plain form posts (no JavaScript) are
+// redirected to `redirectTo`, a path of this site.
+export async function action({ request }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const theme = formData.get("theme");
+  if (!isThemePreference(theme)) {
+    throw data("Invalid theme", { status: 400 });
+  }
+
+  const headers = { "Set-Cookie": await themeCookie.serialize(theme) };
+  const redirectTo = localRedirectPath(formData.get("redirectTo"), request);
+  if (redirectTo) {
+    return redirect(redirectTo, { headers });
+  }
+  return data({ theme }, { headers });
+}
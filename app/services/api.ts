@@ -0,0 +1,18 @@
+import { createHttpClient } from "./http-client";
+
+/**
+ * Upstream API clients
+ *
+ * One HttpClient per API (see http-client.ts), configured from the
+ * environment. Only loaders and actions use them: they run on the server,
+ * and the services are left out of the client bundle.
+ *
+ * Environment: SWAPI_BASE_URL (https://swapi.dev/api), SWAPI_TIMEOUT
+ * (5000 ms per attempt; an invalid value falls back to it, with a warning).
+ */
+
+export const swapi = createHttpClient({
+  name: "SWAPI",
+  baseUrl: process.env.SWAPI_BASE_URL ?? "https://swapi.dev/api",
+  timeout: Number(process.env.SWAPI_TIMEOUT ?? 5_000),
+});
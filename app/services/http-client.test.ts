@@ -0,0 +1,308 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import {
+  createHttpClient,
+  HttpNetworkError,
+  HttpParseError,
+  HttpStatusError,
+  HttpTimeoutError,
+  throwUpstreamResponse,
+} from "./http-client";
+
+type FetchArgs = Parameters<typeof fetch>;
+type ResponseOptions = ConstructorParameters<typeof Response>[1];
+
+// Stubbed fetch answering from `handler`; records the calls
+function stubFetch(handler: (url: string, init: FetchArgs[1]) => unknown) {
+  return mock.method(globalThis, "fetch", async (...[url, init]: FetchArgs) =>
+    handler(String(url), init)
+  );
+}
+
+// Never answers: rejects like fetch once its signal aborts. A pending
+// socket keeps the process alive; the timer stands in for it
+// (AbortSignal.timeout alone does not)
+function hang(init: FetchArgs[1]): Promise<never> {
+  const keepAlive = setInterval(() => {}, 1_000);
+  return new Promise((_, reject) => {
+    init?.signal?.addEventListener("abort", () => {
+      clearInterval(keepAlive);
+      reject(init.signal?.reason);
+    });
+  });
+}
+
+function json(body: unknown, init?: ResponseOptions) {
+  return new Response(JSON.stringify(body), init);
+}
+
+const client = () =>
+  createHttpClient({
+    name: "Test",
+    baseUrl: "https://api.example.com/v1/",
+    timeout: 50,
+    retryDelay: 0,
+  });
+
+let warnings: string[];
+
+beforeEach(() => {
+  warnings = [];
+  mock.method(console, "warn", (message: string) => warnings.push(message));
+  mock.method(console, "error", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe("createHttpClient", () => {
+  it("joins the base URL, the path and the query", async () => {
+    const fetchMock = stubFetch(() => json({ name: "Luke" }));
+    const person = await client().get("/people/1", {
+      query: { page: 2, search: "a b", empty: undefined },
+    });
+
+    assert.deepEqual(person, { name: "Luke" });
+    assert.equal(
+      fetchMock.mock.calls[0].arguments[0],
+      "https://api.example.com/v1/people/1?page=2&search=a+b"
+    );
+  });
+
+  it("sends JSON bodies and validates the response with parse", async () => {
+    const fetchMock = stubFetch(() => json({ id: 1 }));
+    const id = await client().request("items", {
+      method: "POST",
+      body: { name: "x" },
+      parse: (body) => (body as { id: number }).id,
+    });
+
+    assert.equal(id, 1);
+    const init = fetchMock.mock.calls[0].arguments[1];
+    assert.equal(init?.body, '{"name":"x"}');
+    assert.equal(
+      new Headers(init?.headers).get("Content-Type"),
+      "application/json"
+    );
+  });
+
+  it("throws HttpStatusError with the status and body", async () => {
+    stubFetch(() => new Response("missing", { status: 404 }));
+    await assert.rejects(client().get("people/0"), (error) => {
+      assert.ok(error instanceof HttpStatusError);
+      assert.equal(error.status, 404);
+      assert.equal(error.body, "missing");
+      return true;
+    });
+  });
+
+  it("throws HttpParseError for invalid JSON and rejected bodies", async () => {
+    stubFetch(() => new Response("<html>"));
+    await assert.rejects(client().get("a"), HttpParseError);
+
+    stubFetch(() => json({}));
+    await assert.rejects(
+      client().get("a", {
+        parse: () => {
+          throw new TypeError("no name");
+        },
+      }),
+      HttpParseError
+    );
+  });
+});
+
+describe("retries", () => {
+  it("retries idempotent calls on retryable statuses", async () => {
+    let calls = 0;
+    stubFetch(() =>
+      ++calls < 3 ? new Response("", { status: 503 }) : json({ ok: true })
+    );
+
+    assert.deepEqual(await client().get("a"), { ok: true });
+    assert.equal(calls, 3);
+    assert.equal(warnings.length, 2);
+  });
+
+  it("gives up after `retries` extra attempts", async () => {
+    const fetchMock = stubFetch(() => new Response("", { status: 500 }));
+    await assert.rejects(client().get("a", { retries: 1 }), HttpStatusError);
+    assert.equal(fetchMock.mock.callCount(), 2);
+  });
+
+  it("retries network errors", async () => {
+    let calls = 0;
+    stubFetch(() => {
+      if (++calls === 1) throw new TypeError("fetch failed");
+      return json(1);
+    });
+    assert.equal(await client().get("a"), 1);
+  });
+
+  it("does not retry other statuses, parse errors or POST", async () => {
+    const notFound = stubFetch(() => new Response("", { status: 404 }));
+    await assert.rejects(client().get("a"), HttpStatusError);
+    assert.equal(notFound.mock.callCount(), 1);
+
+    const invalid = stubFetch(() => new Response("{"));
+    await assert.rejects(client().get("a"), HttpParseError);
+    assert.equal(invalid.mock.callCount(), 1);
+
+    const post = stubFetch(() => new Response("", { status: 503 }));
+    await assert.rejects(
+      client().request("a", { method: "POST", body: {} }),
+      HttpStatusError
+    );
+    assert.equal(post.mock.callCount(), 1);
+  });
+
+  it("never retries a stream body", async () => {
+    const fetchMock = stubFetch(() => new Response("", { status: 503 }));
+    const body = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("data"));
+        controller.close();
+      },
+    });
+    await assert.rejects(
+      client().request("upload", { method: "PUT", body, retries: 3 }),
+      HttpStatusError
+    );
+    assert.equal(fetchMock.mock.callCount(), 1);
+    const init = fetchMock.mock.calls[0].arguments[1] as { duplex?: string };
+    assert.equal(init.duplex, "half");
+  });
+
+  // The retry delay is read from the warning, then the wait is cut short by
+  // aborting the caller's signal
+  async function retryDelayFor(retryAfter: string): Promise<string> {
+    const controller = new AbortController();
+    mock.method(console, "warn", (message: string) => {
+      warnings.push(message);
+      controller.abort(new Error("stop"));
+    });
+    stubFetch(
+      () =>
+        new Response("", {
+          status: 429,
+          headers: { "Retry-After": retryAfter },
+        })
+    );
+    await assert.rejects(
+      client().get("a", { signal: controller.signal }),
+      /stop/
+    );
+    return warnings.at(-1)?.match(/in (\d+)ms$/)?.[1] ?? "";
+  }
+
+  it("honors Retry-After in seconds, capped at 5s", async () => {
+    assert.equal(await retryDelayFor("2"), "2000");
+    assert.equal(await retryDelayFor("120"), "5000");
+  });
+
+  it("honors Retry-After as an HTTP date", async () => {
+    const date = new Date(Date.now() + 3_000).toUTCString();
+    const delay = Number(await retryDelayFor(date));
+    assert.ok(delay > 1_000 && delay <= 3_000, `delay ${delay}`);
+    assert.equal(
+      await retryDelayFor(new Date(0).toUTCString()),
+      "0",
+      "a past date retries right away"
+    );
+  });
+});
+
+describe("timeouts and signals", () => {
+  it("throws HttpTimeoutError after the timeout", async () => {
+    const fetchMock = stubFetch((_, init) => hang(init));
+    await assert.rejects(client().get("a", { retries: 1 }), (error) => {
+      assert.ok(error instanceof HttpTimeoutError);
+      assert.equal(error.timeout, 50);
+      return true;
+    });
+    assert.equal(fetchMock.mock.callCount(), 2);
+  });
+
+  it("rethrows the caller's abort reason without retrying", async () => {
+    const controller = new AbortController();
+    const reason = new Error("navigation aborted");
+    const fetchMock = stubFetch((_, init) => hang(init));
+    setTimeout(() => controller.abort(reason), 10);
+
+    await assert.rejects(
+      client().get("a", { signal: controller.signal, timeout: 1_000 }),
+      (error) => error === reason
+    );
+    assert.equal(fetchMock.mock.callCount(), 1);
+  });
+
+  it("does not call fetch with an already aborted signal", async () => {
+    const reason = new Error("gone");
+    stubFetch((_, init) => {
+      init?.signal?.throwIfAborted();
+      return json(1);
+    });
+    await assert.rejects(
+      client().get("a", { signal: AbortSignal.abort(reason) }),
+      (error) => error === reason
+    );
+  });
+});
+
+describe("invalid options", () => {
+  it("falls back to the defaults with a warning", async () => {
+    stubFetch(() => json(1));
+    const invalid = createHttpClient({
+      name: "Env",
+      baseUrl: "https://api.example.com",
+      timeout: Number("5s"),
+      retries: -1,
+      retryDelay: 1.5,
+    });
+
+    assert.equal(await invalid.get("a", { timeout: 0 }), 1);
+    assert.equal(warnings.length, 4);
+    assert.match(warnings[0], /invalid timeout NaN, using 5000/);
+  });
+});
+
+describe("throwUpstreamResponse", () => {
+  function statusOf(error: unknown): number | undefined {
+    try {
+      throwUpstreamResponse(error);
+    } catch (thrown) {
+      return (thrown as { init?: ResponseOptions }).init?.status;
+    }
+  }
+
+  const status = (code: number) =>
+    new HttpStatusError("T", "GET", "u", code, "", null);
+
+  it("maps upstream 404 and 410 to 404", () => {
+    assert.equal(statusOf(status(404)), 404);
+    assert.equal(statusOf(status(410)), 404);
+  });
+
+  it("maps timeouts to 504", () => {
+    assert.equal(statusOf(new HttpTimeoutError("T", "GET", "u", 50)), 504);
+  });
+
+  it("maps other failures to 502", () => {
+    assert.equal(statusOf(status(500)), 502);
+    assert.equal(statusOf(status(403)), 502);
+    assert.equal(
+      statusOf(new HttpNetworkError("T", "GET", "u", new Error("reset"))),
+      502
+    );
+    assert.equal(statusOf(new HttpParseError("T", "GET", "u", "bad")), 502);
+  });
+
+  it("rethrows other errors as is", () => {
+    const error = new Error("bug");
+    assert.throws(
+      () => throwUpstreamResponse(error),
+      (e) => e === error
+    );
+  });
+});
@@ -0,0 +1,422 @@
+import { data } from "react-router";
+
+/**
+ * HTTP client for app/services
+ *
+ * Wraps fetch for the upstream APIs the loaders call, one client per API
+ * (see api.ts):
+ * - base URL: request paths are relative to it (absolute URLs are kept)
+ * - timeout per attempt, combined with the caller's `signal`: pass the
+ *   loader's `request.signal` so an aborted navigation cancels the call
+ * - retries with exponential backoff (and `Retry-After`) for idempotent
+ *   methods, on network errors, timeouts, 408, 429 and 5xx. A ReadableStream
+ *   body is consumed by the first attempt: those requests are never retried
+ * - typed errors: HttpStatusError (non-2xx), HttpTimeoutError,
+ *   HttpNetworkError, HttpParseError, all HttpClientError. A caller abort
+ *   is rethrown as is
+ * - JSON in and out; `parse` validates / maps the response body
+ *
+ * Loaders turn the errors into responses with throwUpstreamResponse (404
+ * upstream is a 404 page, other failures a 502 / 504).
+ */
+
+// fetch's init types, reached through fetch (ESLint's no-undef does not
+// know the DOM type globals)
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+type FetchHeaders = FetchInit["headers"];
+type FetchBody = NonNullable<FetchInit["body"]>;
+
+export type HttpMethod =
+  | "GET"
+  | "HEAD"
+  | "OPTIONS"
+  | "POST"
+  | "PUT"
+  | "PATCH"
+  | "DELETE";
+
+export interface HttpClientOptions {
+  // Name used in errors and logs (e.g. "SWAPI")
+  name: string;
+  baseUrl: string;
+  // ms per attempt (default 5000)
+  timeout?: number;
+  // Extra attempts for idempotent requests (default 2)
+  retries?: number;
+  // Backoff base in ms, doubled on every retry (default 200)
+  retryDelay?: number;
+  headers?: FetchHeaders;
+}
+
+export interface HttpRequestOptions<T> {
+  method?: HttpMethod;
+  query?: Record<string, string | number | boolean | undefined>;
+  // Sent as JSON unless it already is a fetch body (FormData, string, ...)
+  body?: unknown;
+  headers?: FetchHeaders;
+  // Usually the loader's request.signal
+  signal?: AbortSignal;
+  timeout?: number;
+  // Override the client's retries; non-idempotent methods default to 0
+  retries?: number;
+  // Validate / map the JSON body (default: cast to T)
+  parse?: (body: unknown) => T;
+}
+
+export interface HttpClient {
+  request<T>(path: string, options?: HttpRequestOptions<T>): Promise<T>;
+  get<T>(
+    path: string,
+    options?: Omit<HttpRequestOptions<T>, "method" | "body">
+  ): Promise<T>;
+}
+
+const IDEMPOTENT_METHODS = new Set<HttpMethod>([
+  "GET",
+  "HEAD",
+  "OPTIONS",
+  "PUT",
+  "DELETE",
+]);
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Longest Retry-After honored, in ms (a longer one is not worth the wait)
+const MAX_RETRY_AFTER = 5_000;
+
+// Response body kept on HttpStatusError, in characters
+const MAX_ERROR_BODY = 500;
+
+export class HttpClientError extends Error {
+  constructor(
+    message: string,
+    readonly method: HttpMethod,
+    readonly url: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "HttpClientError";
+  }
+}
+
+/**
+ * The upstream answered with a non-2xx status
+ */
+export class HttpStatusError extends HttpClientError {
+  constructor(
+    client: string,
+    method: HttpMethod,
+    url: string,
+    readonly status: number,
+    readonly body: string,
+    readonly retryAfter: number | null
+  ) {
+    super(`${client} ${method} ${url} failed with ${status}`, method, url);
+    this.name = "HttpStatusError";
+  }
+}
+
+/**
+ * No response within the client's timeout
+ */
+export class HttpTimeoutError extends HttpClientError {
+  constructor(
+    client: string,
+    method: HttpMethod,
+    url: string,
+    readonly timeout: number
+  ) {
+    super(
+      `${client} ${method} ${url} timed out after ${timeout}ms`,
+      method,
+      url
+    );
+    this.name = "HttpTimeoutError";
+  }
+}
+
+/**
+ * fetch failed (DNS, connection refused / reset, ...)
+ */
+export class HttpNetworkError extends HttpClientError {
+  constructor(client: string, method: HttpMethod, url: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`${client} ${method} ${url} failed: ${reason}`, method, url, {
+      cause,
+    });
+    this.name = "HttpNetworkError";
+  }
+}
+
+/**
+ * The body is not JSON, or `parse` rejected it (not retried)
+ */
+export class HttpParseError extends HttpClientError {
+  constructor(client: string, method: HttpMethod, url: string, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      `${client} ${method} ${url} returned an invalid body: ${reason}`,
+      method,
+      url,
+      { cause }
+    );
+    this.name = "HttpParseError";
+  }
+}
+
+function joinUrl(
+  baseUrl: string,
+  path: string,
+  query: HttpRequestOptions<unknown>["query"]
+): string {
+  const url = new URL(
+    /^https?:\/\//.test(path)
+      ? path
+      : `${baseUrl.replace(/\/+$/, "")}/${path.replace(/^\/+/, "")}`
+  );
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  }
+  return url.href;
+}
+
+function isFetchBody(body: unknown): body is FetchBody {
+  return (
+    typeof body === "string" ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams ||
+    body instanceof Blob ||
+    body instanceof ArrayBuffer ||
+    body instanceof ReadableStream
+  );
+}
+
+// Retry-After in ms: delay in seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  const ms = Number.isNaN(seconds)
+    ? Date.parse(value) - Date.now()
+    : seconds * 1000;
+  return Number.isNaN(ms) ? null : Math.max(0, ms);
+}
+
+function isRetryable(error: HttpClientError): boolean {
+  if (error instanceof HttpStatusError) {
+    return RETRYABLE_STATUSES.has(error.status);
+  }
+  return !(error instanceof HttpParseError);
+}
+
+// Exponential backoff with jitter, or the upstream's Retry-After
+function retryDelayFor(
+  error: HttpClientError,
+  attempt: number,
+  retryDelay: number
+): number {
+  if (error instanceof HttpStatusError && error.retryAfter !== null) {
+    return Math.min(error.retryAfter, MAX_RETRY_AFTER);
+  }
+  const base = retryDelay * 2 ** attempt;
+  return base / 2 + Math.random() * (base / 2);
+}
+
+// Resolves after `ms`, rejects with the abort reason if `signal` aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function createHttpClient(options: HttpClientOptions): HttpClient {
+  const { name, baseUrl } = options;
+
+  // Numeric options often come from the environment (Number("5s") is NaN,
+  // which AbortSignal.timeout rejects): invalid ones get the default
+  function integerOption(
+    option: string,
+    value: number | undefined,
+    min: number,
+    fallback: number
+  ): number {
+    if (value === undefined) return fallback;
+    if (Number.isInteger(value) && value >= min) return value;
+    console.warn(
+      `[HTTP] ⚠️  ${name}: invalid ${option} ${value}, using ${fallback}`
+    );
+    return fallback;
+  }
+
+  const defaultTimeout = integerOption("timeout", options.timeout, 1, 5_000);
+  const defaultRetries = integerOption("retries", options.retries, 0, 2);
+  const retryDelay = integerOption("retryDelay", options.retryDelay, 0, 200);
+
+  async function attempt<T>(
+    method: HttpMethod,
+    url: string,
+    init: FetchInit,
+    timeout: number,
+    signal: AbortSignal | undefined,
+    parse: (body: unknown) => T
+  ): Promise<T> {
+    const timeoutSignal = AbortSignal.timeout(timeout);
+    const attemptSignal = signal
+      ? AbortSignal.any([signal, timeoutSignal])
+      : timeoutSignal;
+
+    let body: unknown = null;
+    try {
+      const response = await fetch(url, { ...init, signal: attemptSignal });
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw new HttpStatusError(
+          name,
+          method,
+          url,
+          response.status,
+          text.slice(0, MAX_ERROR_BODY),
+          parseRetryAfter(response.headers.get("Retry-After"))
+        );
+      }
+      if (response.status !== 204 && method !== "HEAD") {
+        const text = await response.text();
+        if (text) body = JSON.parse(text);
+      }
+    } catch (error) {
+      // The caller gave up (navigation aborted, client disconnected)
+      if (signal?.aborted) throw signal.reason;
+      if (error instanceof HttpClientError) throw error;
+      if (error instanceof SyntaxError) {
+        throw new HttpParseError(name, method, url, error);
+      }
+      if (timeoutSignal.aborted) {
+        throw new HttpTimeoutError(name, method, url, timeout);
+      }
+      throw new HttpNetworkError(name, method, url, error);
+    }
+
+    try {
+      return parse(body);
+    } catch (error) {
+      throw new HttpParseError(name, method, url, error);
+    }
+  }
+
+  async function request<T>(
+    path: string,
+    requestOptions: HttpRequestOptions<T> = {}
+  ): Promise<T> {
+    const {
+      method = "GET",
+      query,
+      body,
+      signal,
+      parse = (value: unknown) => value as T,
+    } = requestOptions;
+    const timeout = integerOption(
+      "timeout",
+      requestOptions.timeout,
+      1,
+      defaultTimeout
+    );
+    const streamed = body instanceof ReadableStream;
+    const retries = streamed
+      ? 0
+      : integerOption(
+          "retries",
+          requestOptions.retries,
+          0,
+          IDEMPOTENT_METHODS.has(method) ? defaultRetries : 0
+        );
+    const url = joinUrl(baseUrl, path, query);
+
+    const headers = new Headers(options.headers);
+    headers.set("Accept", "application/json");
+    new Headers(requestOptions.headers).forEach((value, key) =>
+      headers.set(key, value)
+    );
+    let requestBody: FetchBody | undefined;
+    if (body !== undefined) {
+      if (isFetchBody(body)) {
+        requestBody = body;
+      } else {
+        requestBody = JSON.stringify(body);
+        if (!headers.has("Content-Type")) {
+          headers.set("Content-Type", "application/json");
+        }
+      }
+    }
+    const init: FetchInit = {
+      method,
+      headers,
+      body: requestBody,
+      // Required by Node's fetch to send a stream
+      ...(streamed && { duplex: "half" }),
+    };
+
+    for (let retry = 0; ; retry++) {
+      try {
+        return await attempt(method, url, init, timeout, signal, parse);
+      } catch (error) {
+        if (
+          !(error instanceof HttpClientError) ||
+          retry >= retries ||
+          !isRetryable(error)
+        ) {
+          throw error;
+        }
+        const delay = retryDelayFor(error, retry, retryDelay);
+        console.warn(
+          `[HTTP] 🔁 ${error.message}, retry ${retry + 1}/${retries} in ${Math.round(delay)}ms`
+        );
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  return {
+    request,
+    get: (path, getOptions) => request(path, { ...getOptions, method: "GET" }),
+  };
+}
+
+/**
+ * Loader helper: rethrow an upstream failure as a route error response,
+ * rendered by the ErrorBoundary with a status that matches what happened
+ * - upstream 404 / 410: 404 Not Found (the page does not exist)
+ * - timeout: 504 Gateway Timeout
+ * - any other status or network error: 502 Bad Gateway
+ * Other errors (caller aborts, bugs) are rethrown as is.
+ *
+ *   const person = await getPerson(params.slug, request.signal).catch(
+ *     throwUpstreamResponse
+ *   );
+ */
+export function throwUpstreamResponse(error: unknown): never {
+  if (!(error instanceof HttpClientError)) throw error;
+
+  if (
+    error instanceof HttpStatusError &&
+    (error.status === 404 || error.status === 410)
+  ) {
+    throw data("Not Found", { status: 404, statusText: "Not Found" });
+  }
+
+  console.error(`[HTTP] ❌ ${error.message}`);
+  if (error instanceof HttpTimeoutError) {
+    throw data("Gateway Timeout", {
+      status: 504,
+      statusText: "Gateway Timeout",
+    });
+  }
+  throw data("Bad Gateway", { status: 502, statusText: "Bad Gateway" });
+}
@@ -1,5 +1,20 @@
-export async function getDataBySlug(slug: string) {
-  const response = await fetch(`https://swapi.dev/api/people/${slug}`);
-  const data = await response.json();
-  return data;
+import { swapi } from "./api";
+
+export interface Person {
+  name: string;
+}
+
+function parsePerson(body: unknown): Person {
+  const name = (body as Partial<Person> | null)?.name;
+  if (typeof name !== "string") {
+    throw new TypeError("Expected a person with a name");
+  }
+  return { name };
+}
+
+export function getDataBySlug(slug: string, signal?: AbortSignal) {
+  return swapi.get(`people/${encodeURIComponent(slug)}`, {
+    signal,
+    parse: parsePerson,
+  });
 }
@@ -1,5 +1,20 @@
-import { readFileSync } from "fs";
+import { readFile } from "fs/promises";
 import { resolve } from "path";
+import { toRouteBundleName } from "./critical-css-routes";
+import { rewriteHtml, type HtmlRewriteOptions } from "./html-rewriter";
+import {
+  selectViewport,
+  VIEWPORTS,
+  type Viewport,
+  type ViewportHints,
+} from "./viewport";
+import {
+  CRITICAL_CSS_MANIFEST_FILE,
+  type CriticalCssManifest,
+  type CssAssetEntry,
+} from "./critical-css-manifest";
+import { assetHref } from "./critical-css-config";
+import criticalCssConfig from "../../critical-css.config";
 
 /**
  * Extract and inline critical CSS from the build output
@@ -9,132 +24,303 @@ import { resolve } from "path";
  * This processor now handles two separate CSS files:
  * 1. root-*.css: Critical CSS (inlined in <style> tag for fast FCP)
  * 2. non-critical-*.css: Non-critical CSS (lazy-loaded asynchronously)
+ * 3. critical-<route>-*.css: Route-scoped critical CSS (inlined only when
+ *    the route is part of the matched route tree)
+ * 4. deferred-<media>-*.css: @defer / @print CSS, linked with its media
+ * 5. viewport-<mobile|desktop>-*.css: root-*.css for one viewport, inlined
+ *    instead of it when the request's viewport is known (see viewport.ts);
+ *    the rules it leaves out are lazy-loaded like non-critical CSS
  *
  * Process:
- * 1. Find both CSS files in build output
- * 2. Inline critical CSS as <style id="critical-css"> tag in <head>
+ * 1. Load build/critical-css-manifest.json and the inlined CSS once, at
+ *    server startup (no per-request disk I/O)
+ * 2. Inline critical CSS (global or its viewport variant + matched routes)
+ *    as <style> tags in <head> (applied by html-rewriter, streamed or on a
+ *    complete document)
  * 3. Add non-critical CSS as <link> tag with lazy-loading technique
- * 4. Remove external <link> tags for both to prevent duplication
+ *    (a nonce'd script switches media="print" to "all", no inline handlers)
+ * 4. Add one <link media="..."> per deferred bundle (@defer / @print)
+ * 5. Remove external <link> tags for both to prevent duplication, and for
+ *    the Vite assets of component-imported stylesheets (already part of
+ *    the bundles above)
+ *
+ * When a CSP nonce is given, every inserted <style>/<script> carries it.
+ *
+ * Paths and asset URLs follow critical-css.config.ts (buildDir, assetsDir,
+ * publicPath). With `features.inline: false` nothing is inlined: Vite's
+ * root-*.css link is kept and the bundles above are linked instead.
  */
 
-interface CSSFiles {
-  critical: string | null;
-  nonCritical: string | null;
+interface LoadedCriticalCSS {
+  manifest: CriticalCssManifest;
+  // root-*.css entry and content
+  criticalEntry: CssAssetEntry;
+  critical: string;
+  // Route id -> critical-<route>-*.css content
+  routes: Record<string, string>;
+  // viewport-<variant>-*.css content
+  viewports: Record<Viewport, string> | null;
+}
+
+let loadedCSS: Promise<LoadedCriticalCSS | null> | null = null;
+
+async function readCriticalCSS(): Promise<LoadedCriticalCSS | null> {
+  const buildPath = resolve(process.cwd(), criticalCssConfig.buildDir);
+  const cssPath = resolve(buildPath, "client", criticalCssConfig.assetsDir);
+
+  try {
+    const manifest: CriticalCssManifest = JSON.parse(
+      await readFile(resolve(buildPath, CRITICAL_CSS_MANIFEST_FILE), "utf-8")
+    );
+
+    // Check if we have at least critical CSS
+    if (!manifest.critical) {
+      console.warn(
+        "[Critical CSS] ⚠️ No critical CSS file found in build manifest"
+      );
+      return null;
+    }
+
+    const critical = await readFile(
+      resolve(cssPath, manifest.critical.file),
+      "utf-8"
+    );
+    const routes: Record<string, string> = {};
+    for (const [routeId, entry] of Object.entries(manifest.routes)) {
+      routes[routeId] = await readFile(resolve(cssPath, entry.file), "utf-8");
+    }
+    let viewports: Record<Viewport, string> | null = null;
+    if (manifest.viewports) {
+      viewports = { mobile: "", desktop: "" };
+      for (const viewport of VIEWPORTS) {
+        viewports[viewport] = await readFile(
+          resolve(cssPath, manifest.viewports.variants[viewport].critical.file),
+          "utf-8"
+        );
+      }
+    }
+
+    console.log(
+      `[Critical CSS] 📄 Critical CSS: ${manifest.critical.file} (${(manifest.critical.size / 1024).toFixed(2)} KB)`
+    );
+    for (const [routeId, entry] of Object.entries(manifest.routes)) {
+      console.log(
+        `[Critical CSS] 🧭 Route critical CSS (${routeId}): ${entry.file} (${(entry.size / 1024).toFixed(2)} KB)`
+      );
+    }
+    if (manifest.nonCritical) {
+      console.log(
+        `[Critical CSS] 📄 Non-critical CSS: ${manifest.nonCritical.file} (${(manifest.nonCritical.size / 1024).toFixed(2)} KB)`
+      );
+    }
+    if (manifest.viewports) {
+      for (const viewport of VIEWPORTS) {
+        const { critical: entry } = manifest.viewports.variants[viewport];
+        console.log(
+          `[Critical CSS] 📱 Viewport critical CSS (${viewport}): ${entry.file} (${(entry.size / 1024).toFixed(2)} KB)`
+        );
+      }
+    }
+    for (const entry of manifest.deferred) {
+      console.log(
+        `[Critical CSS] 🖨️  Deferred CSS (media ${entry.media}): ${entry.file} (${(entry.size / 1024).toFixed(2)} KB)`
+      );
+    }
+
+    return {
+      manifest,
+      criticalEntry: manifest.critical,
+      critical,
+      routes,
+      viewports,
+    };
+  } catch (error) {
+    console.error("[Critical CSS] ❌ Failed to load build manifest:", error);
+    return null;
+  }
+}
+
+/**
+ * Load the critical CSS manifest and inlined CSS into memory (once)
+ */
+export function loadCriticalCSS(): Promise<LoadedCriticalCSS | null> {
+  loadedCSS ??= readCriticalCSS();
+  return loadedCSS;
 }
 
-async function findCSSFiles(cssPath: string): Promise<CSSFiles> {
-  const fs = await import("fs/promises");
-  const files = await fs.readdir(cssPath);
+// Start loading at server startup so the first request does not wait on it
+if (import.meta.env.PROD) {
+  void loadCriticalCSS();
+}
 
-  // Find critical CSS file (root-*.css from main app bundle)
-  const criticalFile = files.find(
-    (f) => f.endsWith(".css") && f.startsWith("root-")
+// Switch a print-media stylesheet to all media once it has loaded
+// (replaces an onload="" handler, which a strict CSP blocks)
+function asyncStylesheet(id: string, href: string, nonceAttr: string): string {
+  const loader = `(function(l){function a(){l.media="all"}l.sheet?a():l.addEventListener("load",a)})(document.getElementById("${id}"))`;
+  return (
+    `<link rel="stylesheet" id="${id}" href="${href}" media="print" />` +
+    `<script${nonceAttr}>${loader}</script>` +
+    `<noscript><link rel="stylesheet" href="${href}" /></noscript>`
   );
+}
 
-  // Find non-critical CSS file (non-critical-*.css from separate entry)
-  const nonCriticalFile = files.find(
-    (f) => f.startsWith("non-critical-") && f.endsWith(".css")
+// Matches <link> tags pointing at one of the given asset files
+function linksTo(filenames: string[]): (tag: string) => boolean {
+  const patterns = filenames.map(
+    (filename) =>
+      new RegExp(
+        `href="[^"]*${filename.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}"`
+      )
   );
+  return (tag) => patterns.some((pattern) => pattern.test(tag));
+}
 
-  return {
-    critical: criticalFile || null,
-    nonCritical: nonCriticalFile || null,
-  };
+export interface ProcessCriticalCSSOptions {
+  // Matched route ids, selecting the route-scoped critical bundles
+  routeIds?: string[];
+  // Per-request Content-Security-Policy nonce
+  nonce?: string;
+  // Client hint of the request, selecting the viewport variant
+  viewportHints?: ViewportHints;
 }
 
-function removeExternalCSSLinks(html: string, filenames: string[]): string {
-  let result = html;
-  for (const filename of filenames) {
-    const cssLinkRegex = new RegExp(
-      `<link[^>]*href="[^"]*${filename.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}"[^>]*/?>`,
-      "g"
-    );
-    result = result.replace(cssLinkRegex, "");
+/**
+ * Viewport variant inlined for the given hints (null: the full critical
+ * CSS, or nothing inlined)
+ */
+export async function getViewportVariant(
+  viewportHints: ViewportHints
+): Promise<Viewport | null> {
+  return (await hasViewportVariants()) ? selectViewport(viewportHints) : null;
+}
+
+/**
+ * Whether documents get a viewport variant of the critical CSS, hence
+ * depend on the viewport hint (false when the build had nothing to split)
+ */
+export async function hasViewportVariants(): Promise<boolean> {
+  if (!import.meta.env.PROD || !criticalCssConfig.features.inline) {
+    return false;
   }
-  return result;
+  return Boolean((await loadCriticalCSS())?.manifest.viewports);
 }
 
-export async function processCriticalCSS(html: string): Promise<string> {
+/**
+ * Build the head rewrite for a document: critical <style> tags and the
+ * non-critical loader to insert, and the external CSS links to remove.
+ * Returns an empty rewrite in development or when the build has no manifest.
+ */
+export async function getCriticalCSSRewrite({
+  routeIds = [],
+  nonce,
+  viewportHints = {},
+}: ProcessCriticalCSSOptions = {}): Promise<HtmlRewriteOptions> {
   // Only process in production
   if (!import.meta.env.PROD) {
-    return html;
+    return {};
   }
 
-  try {
-    const cssPath = resolve(process.cwd(), "build/client/assets");
-    const cssFiles = await findCSSFiles(cssPath);
-
-    // Check if we have at least critical CSS
-    if (!cssFiles.critical) {
-      console.warn(
-        "[Critical CSS] ⚠️ No critical CSS file found in build output"
-      );
-      return html;
-    }
+  const loaded = await loadCriticalCSS();
+  if (!loaded) {
+    return {};
+  }
+  const { manifest, criticalEntry } = loaded;
+  const nonceAttr = nonce ? ` nonce="${nonce}"` : "";
+  const href = (file: string) => assetHref(criticalCssConfig, file);
 
-    // Find head section
-    const headStartIndex = html.indexOf("<head>");
-    const headEndIndex = html.indexOf("</head>");
+  // Media-deferred CSS: the browser fetches it at low priority and never
+  // blocks rendering on it while the media query does not match
+  const deferredLinkTags = manifest.deferred
+    .map(
+      (entry) =>
+        `<link rel="stylesheet" href="${href(entry.file)}" media="${entry.media.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}" />`
+    )
+    .join("");
 
-    if (headStartIndex === -1 || headEndIndex === -1) {
-      console.warn("[Critical CSS] ⚠️ No </head> tag found");
-      return html;
-    }
+  // Inlining disabled: keep root-*.css linked and link the matched route
+  // bundles and the non-critical bundle (render-blocking, like Vite's CSS)
+  if (!criticalCssConfig.features.inline) {
+    const linkTags = [
+      ...routeIds.flatMap((routeId) => manifest.routes[routeId] ?? []),
+      ...(manifest.nonCritical ? [manifest.nonCritical] : []),
+    ]
+      .map((entry) => `<link rel="stylesheet" href="${href(entry.file)}" />`)
+      .join("");
 
-    // Read critical CSS
-    const criticalCssPath = resolve(cssPath, cssFiles.critical);
-    const criticalCssContent = readFileSync(criticalCssPath, "utf-8");
-    const criticalSizeKB = (criticalCssContent.length / 1024).toFixed(2);
+    return {
+      head: linkTags + deferredLinkTags,
+      removeLink: linksTo(manifest.replaced),
+    };
+  }
 
-    console.log(
-      `[Critical CSS] 📄 Critical CSS: ${cssFiles.critical} (${criticalSizeKB} KB)`
-    );
+  // Remove external CSS links for both critical and non-critical to prevent duplication
+  // (and the Vite assets of component-imported stylesheets, delivered by them)
+  const filesToRemove = [
+    criticalEntry.file,
+    ...(manifest.nonCritical ? [manifest.nonCritical.file] : []),
+    ...manifest.replaced,
+  ];
 
-    // Extract head section
-    const headSection = html.substring(headStartIndex, headEndIndex);
-    const afterHeadSection = html.substring(headEndIndex);
-
-    // Remove external CSS links for both critical and non-critical to prevent duplication
-    const filesToRemove = [
-      cssFiles.critical,
-      ...(cssFiles.nonCritical ? [cssFiles.nonCritical] : []),
-    ];
-    const cleanedHead = removeExternalCSSLinks(headSection, filesToRemove);
-
-    // Create critical CSS style tag
-    const criticalStyleTag = `<style id="critical-css" type="text/css">${criticalCssContent}</style>`;
-
-    // Create non-critical CSS link tag if it exists
-    let nonCriticalLinkTag = "";
-    if (cssFiles.nonCritical) {
-      const nonCriticalPath = resolve(cssPath, cssFiles.nonCritical);
-      const nonCriticalContentLength = (
-        await (await import("fs/promises")).readFile(nonCriticalPath, "utf-8")
-      ).length;
-      const nonCriticalSizeKB = (nonCriticalContentLength / 1024).toFixed(2);
+  // Inline the viewport variant of the global critical CSS when the
+  // viewport is known, and lazy-load the rules it leaves out
+  const viewport = manifest.viewports ? selectViewport(viewportHints) : null;
+  const variant =
+    viewport && manifest.viewports && loaded.viewports
+      ? {
+          ...manifest.viewports.variants[viewport],
+          css: loaded.viewports[viewport],
+        }
+      : null;
 
-      console.log(
-        `[Critical CSS] 📄 Non-critical CSS: ${cssFiles.nonCritical} (${nonCriticalSizeKB} KB)`
-      );
+  // Create critical CSS style tag
+  let criticalStyleTag = `<style id="critical-css" type="text/css"${nonceAttr}>${variant ? variant.css : loaded.critical}</style>`;
+  let inlinedSize = variant ? variant.critical.size : criticalEntry.size;
 
-      // Note: The href is relative; it will work because of how the server serves assets
-      nonCriticalLinkTag = `<link rel="stylesheet" href="/assets/${cssFiles.nonCritical}" media="print" onload="this.media='all'" />`;
-    }
+  // Append one style tag per matched route bundle, in match order
+  for (const routeId of routeIds) {
+    const routeCssContent = loaded.routes[routeId];
+    if (routeCssContent === undefined) continue;
 
-    // Reconstruct HTML: head (cleaned) + critical style + non-critical link + rest
-    let processed =
-      html.substring(0, headStartIndex) +
-      cleanedHead +
-      criticalStyleTag +
-      nonCriticalLinkTag +
-      afterHeadSection;
+    inlinedSize += manifest.routes[routeId].size;
+    criticalStyleTag += `<style id="critical-css-${toRouteBundleName(routeId)}" type="text/css"${nonceAttr}>${routeCssContent}</style>`;
+  }
 
-    const removedCount = filesToRemove.length;
-    console.log(
-      `[Critical CSS] ✅ Inlined ${criticalSizeKB} KB critical CSS${cssFiles.nonCritical ? ` + async-loaded ${cssFiles.nonCritical}` : ""} (removed ${removedCount} external link(s))`
+  // Create non-critical CSS link tag if it exists
+  let nonCriticalLinkTag = "";
+  if (manifest.nonCritical) {
+    nonCriticalLinkTag = asyncStylesheet(
+      "non-critical-css",
+      href(manifest.nonCritical.file),
+      nonceAttr
+    );
+  }
+  if (variant?.rest) {
+    nonCriticalLinkTag += asyncStylesheet(
+      "viewport-rest-css",
+      href(variant.rest.file),
+      nonceAttr
     );
+  }
+
+  console.log(
+    `[Critical CSS] ✅ Inlined ${(inlinedSize / 1024).toFixed(2)} KB critical CSS${viewport ? ` (${viewport})` : ""}${manifest.nonCritical ? ` + async-loaded ${manifest.nonCritical.file}` : ""} (removing ${filesToRemove.length} external link(s))`
+  );
+
+  return {
+    head: criticalStyleTag + nonCriticalLinkTag + deferredLinkTags,
+    removeLink: linksTo(filesToRemove),
+  };
+}
 
-    return processed;
+/**
+ * Apply the critical CSS rewrite to a complete HTML document
+ */
+export async function processCriticalCSS(
+  html: string,
+  options: ProcessCriticalCSSOptions = {}
+): Promise<string> {
+  try {
+    return rewriteHtml(html, await getCriticalCSSRewrite(options));
   } catch (error) {
     console.error("[Critical CSS] ❌ Processing failed:", error);
     // Fallback: return original HTML if processing fails
@@ -0,0 +1,175 @@
+/**
+ * Critical CSS pipeline configuration
+ *
+ * One typed object shared by the Vite plugins (critical-css-scanner,
+ * css-compiled-separately, the inspector and the suggestions) and the SSR
+ * runtime (beasties-processor, preload-links). The project's values live in
+ * critical-css.config.ts at the repository root; options left out fall back
+ * to the defaults below.
+ *
+ * Directories are relative to the project root, entries and globs to
+ * `appDir`.
+ */
+
+export interface CriticalCssBudget {
+  // Max raw size of the inlined critical CSS for any page
+  maxSize?: number;
+  // Max gzipped size of the inlined critical CSS for any page
+  maxGzipSize?: number;
+  // Default max raw contribution of a single source file
+  maxComponentSize?: number;
+  // Per-file overrides (path relative to app/, e.g. "components/layout/header/header.scss")
+  components?: Record<string, number>;
+}
+
+export interface CriticalCssConfig {
+  // React Router's appDirectory
+  appDir: string;
+  // React Router's buildDirectory (manifest and reports are written here)
+  buildDir: string;
+  // Vite's build.assetsDir, inside <buildDir>/client
+  assetsDir: string;
+  // Base URL of the assets: "/", a sub-path ("/shop/") or a CDN origin
+  // ("https://cdn.example.com/"); also used as Vite's `base` when unset
+  publicPath: string;
+  entries: {
+    // Stylesheet app/root.tsx imports (compiled by Vite into root-*.css)
+    root: string;
+    // Global critical styles it uses (abstracts, utilities, @critical)
+    critical: string;
+    // Entry of the separately compiled non-critical bundle
+    nonCritical: string;
+    // Utility class generators (their classes are purged when unused)
+    utilities: string;
+  };
+  // File name prefixes of the CSS assets
+  assetPrefixes: {
+    // Vite's name for the root route's CSS (follows app/root.tsx)
+    root: string;
+    nonCritical: string;
+    route: string;
+    deferred: string;
+    viewport: string;
+  };
+  // Marker names, e.g. "critical" for /* @critical */
+  markers: {
+    critical: string;
+    defer: string;
+    print: string;
+  };
+  // Component stylesheets scanned for markers
+  include: string[];
+  exclude: string[];
+  // Unused utility classes removal (production builds)
+  purge: {
+    // Files scanned for class names
+    content: string[];
+    // Utility classes always kept, e.g. set from data or built at runtime
+    safelist: Array<string | RegExp>;
+  };
+  features: {
+    // Inline critical CSS in documents (off: Vite's <link> tags are kept)
+    inline: boolean;
+    // Mobile / desktop variants of root-*.css
+    viewportVariants: boolean;
+    // Classify stylesheets imported from components (incl. CSS Modules)
+    importedStylesheets: boolean;
+    // Dev-only /__critical-css report and previews
+    inspector: boolean;
+    // Marker suggestions after production builds
+    suggestions: boolean;
+    // Drop utility classes no scanned file uses from every CSS bundle
+    purgeUtilities: boolean;
+  };
+  // Inlined critical CSS limits; the build fails when exceeded
+  budget?: CriticalCssBudget;
+}
+
+// Partial options, one level deep
+export type CriticalCssOptions = {
+  [K in keyof CriticalCssConfig]?: CriticalCssConfig[K] extends
+    | string
+    | string[]
+    | undefined
+    ? CriticalCssConfig[K]
+    : Partial<CriticalCssConfig[K]>;
+};
+
+// Generated Sass entries, relative to `appDir` (the entries `@use` them,
+// so this is not configurable)
+export const GENERATED_CRITICAL_DIR = ".internal/critical-css";
+
+export const DEFAULT_CRITICAL_CSS_CONFIG: CriticalCssConfig = {
+  appDir: "app",
+  buildDir: "build",
+  assetsDir: "assets",
+  publicPath: "/",
+  entries: {
+    root: "app.scss",
+    critical: "styles/index.scss",
+    nonCritical: "styles/non-critical-entry.scss",
+    utilities: "styles/create/_index.scss",
+  },
+  assetPrefixes: {
+    root: "root-",
+    nonCritical: "non-critical-",
+    route: "critical-",
+    deferred: "deferred-",
+    viewport: "viewport-",
+  },
+  markers: {
+    critical: "critical",
+    defer: "defer",
+    print: "print",
+  },
+  include: ["**/*.scss"],
+  exclude: ["**/styles/**", "**/.internal/**", "app.scss"],
+  purge: {
+    content: ["**/*.tsx"],
+    safelist: [],
+  },
+  features: {
+    inline: true,
+    viewportVariants: true,
+    importedStylesheets: true,
+    inspector: true,
+    suggestions: true,
+    purgeUtilities: true,
+  },
+};
+
+/**
+ * Complete the given options with the defaults
+ */
+export function defineCriticalCssConfig(
+  options: CriticalCssOptions = {}
+): CriticalCssConfig {
+  const defaults = DEFAULT_CRITICAL_CSS_CONFIG;
+  return {
+    ...defaults,
+    ...options,
+    entries: { ...defaults.entries, ...options.entries },
+    assetPrefixes: { ...defaults.assetPrefixes, ...options.assetPrefixes },
+    markers: { ...defaults.markers, ...options.markers },
+    purge: { ...defaults.purge, ...options.purge },
+    features: { ...defaults.features, ...options.features },
+    budget: options.budget,
+  };
+}
+
+/**
+ * URL of a file of Vite's public directory (e.g. "fonts/x.woff2")
+ */
+export function publicHref(config: CriticalCssConfig, file: string): string {
+  const base = config.publicPath.endsWith("/")
+    ? config.publicPath
+    : `${config.publicPath}/`;
+  return `${base}${file}`;
+}
+
+/**
+ * URL of a CSS asset as the document references it
+ */
+export function assetHref(config: CriticalCssConfig, file: string): string {
+  return publicHref(config, `${config.assetsDir}/${file}`);
+}
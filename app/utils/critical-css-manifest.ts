@@ -0,0 +1,59 @@
+/**
+ * Critical CSS asset manifest
+ *
+ * Written once at build time by the css-compiled-separately Vite plugin
+ * (build/critical-css-manifest.json) and loaded once at server startup by
+ * beasties-processor, so document requests never touch the assets directory.
+ */
+
+import type { Viewport } from "./viewport";
+
+export const CRITICAL_CSS_MANIFEST_FILE = "critical-css-manifest.json";
+
+export interface CssAssetEntry {
+  // File name inside build/client/assets
+  file: string;
+  // sha256 of the file content (hex)
+  hash: string;
+  // Size in bytes
+  size: number;
+}
+
+export interface DeferredCssAssetEntry extends CssAssetEntry {
+  // Value of the <link media> attribute, e.g. "print"
+  media: string;
+}
+
+export interface ViewportCssVariant {
+  // viewport-<variant>-*.css: root-*.css without the rules of the other
+  // viewport (inlined instead of root-*.css)
+  critical: CssAssetEntry;
+  // viewport-<variant>-rest-*.css: the rules left out (async-loaded)
+  rest: CssAssetEntry | null;
+}
+
+export interface ViewportCssVariants {
+  // Narrowest desktop viewport in CSS pixels ($bpval-md)
+  desktopMinWidth: number;
+  variants: Record<Viewport, ViewportCssVariant>;
+}
+
+export interface CriticalCssManifest {
+  version: 4;
+  generatedAt: string;
+  // root-*.css (abstracts, utilities and global @critical components)
+  critical: CssAssetEntry | null;
+  // non-critical-*.css (async-loaded)
+  nonCritical: CssAssetEntry | null;
+  // Route id -> critical-<route>-*.css (only routes with critical components;
+  // "root" holds the @critical stylesheets imported by app/root.tsx's graph)
+  routes: Record<string, CssAssetEntry>;
+  // deferred-<media>-*.css (@defer / @print components), one per media query
+  deferred: DeferredCssAssetEntry[];
+  // Mobile / desktop variants of root-*.css (null when it has no breakpoint
+  // media queries, see viewport.ts)
+  viewports: ViewportCssVariants | null;
+  // Vite CSS assets of component-imported stylesheets, whose rules ship in
+  // the bundles above instead (their <link> tags are removed)
+  replaced: string[];
+}
@@ -0,0 +1,16 @@
+/**
+ * Per-route critical CSS naming
+ *
+ * Shared by the critical-css-scanner / css-compiled-separately Vite plugins
+ * (build time) and beasties-processor (SSR), so both sides agree on how a
+ * React Router route id maps to a generated SCSS entry and a CSS asset.
+ *
+ * Route ids may contain characters that are not safe in file names
+ * (e.g. "routes/proxy/search"), so they are sanitized first.
+ */
+
+export const ROUTE_CRITICAL_ENTRY_PREFIX = "_generated-critical-route-";
+
+export function toRouteBundleName(routeId: string): string {
+  return routeId.replace(/[^a-zA-Z0-9_-]+/g, "-");
+}
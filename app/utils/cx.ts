@@ -0,0 +1,24 @@
+import type { UtilityClass } from "../.internal/utilities/utility-classes";
+
+export type { UtilityClass };
+
+/**
+ * Type-safe className for the design token utilities
+ *
+ * UtilityClass is the union of every class app/styles/create generates
+ * (.p--200, .tp-w--s, .c-bg--fourth, .flex-item-stretch, ...), written to
+ * app/.internal/utilities/utility-classes.ts by the critical CSS scanner
+ * (and by `yarn generate`, run on install and typecheck) and regenerated by
+ * its watcher in development, so a typo is a type error instead of an
+ * unstyled element:
+ *
+ *   <div className={cx("p--200", isActive && "c-bg--fourth")} />
+ *
+ * Falsy values are skipped. Component classes are not utilities: combine
+ * them with a template literal (`card ${cx("p--200")}`).
+ */
+export function cx(
+  ...classes: Array<UtilityClass | false | null | undefined>
+): string {
+  return classes.filter(Boolean).join(" ");
+}
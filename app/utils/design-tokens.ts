@@ -0,0 +1,26 @@
+import { breakpoints } from "../.internal/design-tokens/design-tokens";
+
+export * from "../.internal/design-tokens/design-tokens";
+
+/**
+ * Design tokens for TypeScript
+ *
+ * Same values as the Sass variables and custom properties: all of them are
+ * generated from app/styles/design-tokens.json by the design-tokens Vite
+ * plugin and `yarn generate` (into
+ * app/.internal/design-tokens/design-tokens.ts). Lengths are
+ * the CSS the stylesheets get (rem, or `var(--dim--*)`), usable in inline
+ * styles; breakpoints are px numbers.
+ *
+ *   const isDesktop = window.matchMedia(mediaQuery("md")).matches;
+ */
+
+export type Breakpoint = keyof typeof breakpoints;
+
+/**
+ * Media query matching viewports from a breakpoint up, like the
+ * breakpoint-<name> Sass mixins
+ */
+export function mediaQuery(breakpoint: Breakpoint): string {
+  return `(min-width: ${breakpoints[breakpoint]}px)`;
+}
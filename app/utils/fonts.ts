@@ -0,0 +1,113 @@
+import { publicHref, type CriticalCssConfig } from "./critical-css-config";
+
+/**
+ * Self-hosted web fonts
+ *
+ * Single description of the fonts shipped in public/fonts/, shared by:
+ * - the font-face Vite plugin (build time): generates the @font-face rules
+ *   and metric-matched fallback faces, inlined with the critical CSS
+ * - the root route's links() and the document preload headers (SSR):
+ *   preload only the faces used above the fold
+ *
+ * Files are latin subsets; `unicodeRange` tells the browser which characters
+ * a file covers so it only downloads the subsets a page actually uses.
+ * Their URLs follow the critical CSS config's `publicPath` (sub-path or CDN
+ * origin), like the other assets.
+ */
+
+export interface FontMetrics {
+  // From the font's hhea / OS/2 tables, in font units
+  ascent: number;
+  descent: number;
+  lineGap: number;
+  unitsPerEm: number;
+  // Average width of lowercase latin characters
+  xWidthAvg: number;
+}
+
+export interface FontFaceFile {
+  weight: number;
+  style: "normal" | "italic";
+  // File name in public/fonts/
+  file: string;
+  unicodeRange?: string;
+  // Used above the fold: preloaded on every document
+  preload?: boolean;
+}
+
+export interface FontFamily {
+  family: string;
+  display: "auto" | "block" | "swap" | "fallback" | "optional";
+  metrics: FontMetrics;
+  // Locally installed font sized to match, shown until the web font loads
+  fallback: { local: string; metrics: FontMetrics };
+  faces: FontFaceFile[];
+}
+
+// Directory of the font files, inside Vite's public directory
+export const FONTS_DIR = "fonts";
+
+const LATIN_RANGE =
+  "U+0000-00FF, U+0131, U+0152-0153, U+02BB-02BC, U+02C6, U+02DA, U+02DC, U+0304, U+0308, U+0329, U+2000-206F, U+20AC, U+2122, U+2191, U+2193, U+2212, U+2215, U+FEFF, U+FFFD";
+
+const ARIAL_METRICS: FontMetrics = {
+  ascent: 1854,
+  descent: -434,
+  lineGap: 67,
+  unitsPerEm: 2048,
+  xWidthAvg: 913,
+};
+
+export const FONT_FAMILIES: FontFamily[] = [
+  {
+    family: "Noto Sans",
+    display: "swap",
+    metrics: {
+      ascent: 1069,
+      descent: -293,
+      lineGap: 0,
+      unitsPerEm: 1000,
+      xWidthAvg: 474,
+    },
+    fallback: { local: "Arial", metrics: ARIAL_METRICS },
+    faces: [
+      {
+        weight: 300,
+        style: "normal",
+        file: "noto-sans-latin-300-normal.woff2",
+        unicodeRange: LATIN_RANGE,
+        preload: true,
+      },
+      {
+        weight: 500,
+        style: "normal",
+        file: "noto-sans-latin-500-normal.woff2",
+        unicodeRange: LATIN_RANGE,
+      },
+      {
+        weight: 700,
+        style: "normal",
+        file: "noto-sans-latin-700-normal.woff2",
+        unicodeRange: LATIN_RANGE,
+      },
+    ],
+  },
+];
+
+export function fontHref(
+  config: CriticalCssConfig,
+  face: FontFaceFile
+): string {
+  return publicHref(config, `${FONTS_DIR}/${face.file}`);
+}
+
+/**
+ * URLs of the font files to preload (faces marked `preload`)
+ */
+export function getPreloadFontHrefs(config: CriticalCssConfig): string[] {
+  return FONT_FAMILIES.flatMap((family) =>
+    family.faces
+      .filter((face) => face.preload)
+      .map((face) => fontHref(config, face))
+  );
+}
@@ -0,0 +1,222 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  createHtmlCacheEntry,
+  createMemoryHtmlCacheStore,
+  getHtmlCachePolicy,
+  htmlCacheAge,
+  htmlCacheKey,
+  htmlCacheState,
+  isCacheableRequest,
+  isCacheableResponse,
+  restoreCachedHtml,
+  type HtmlCacheEntry,
+} from "./html-cache";
+
+const POLICY = { maxAge: 60, staleWhileRevalidate: 300 };
+
+function request(url: string, init?: ConstructorParameters<typeof Request>[1]) {
+  return new Request(url, init);
+}
+
+function entry(html: string, storedAt = Date.now()): HtmlCacheEntry {
+  return { html, storedAt, maxAge: 60, staleWhileRevalidate: 300 };
+}
+
+describe("htmlCacheKey", () => {
+  const browser = { viewport: null, bot: false };
+
+  it("keys by host, path and query", () => {
+    const keys = new Set(
+      [
+        "https://a.example.com/post?x=1",
+        "https://b.example.com/post?x=1",
+        "https://a.example.com/post?x=2",
+        "https://a.example.com/other?x=1",
+      ].map((url) => htmlCacheKey(request(url), browser))
+    );
+    assert.equal(keys.size, 4);
+  });
+
+  it("ignores the hash", () => {
+    assert.equal(
+      htmlCacheKey(request("https://a.example.com/post#top"), browser),
+      htmlCacheKey(request("https://a.example.com/post"), browser)
+    );
+  });
+
+  it("separates viewport variants and bots", () => {
+    const page = request("https://a.example.com/");
+    const keys = new Set([
+      htmlCacheKey(page, { viewport: null, bot: false }),
+      htmlCacheKey(page, { viewport: "mobile", bot: false }),
+      htmlCacheKey(page, { viewport: "desktop", bot: false }),
+      htmlCacheKey(page, { viewport: null, bot: true }),
+      htmlCacheKey(page, { viewport: "mobile", bot: true }),
+    ]);
+    assert.equal(keys.size, 5);
+  });
+});
+
+describe("isCacheableRequest", () => {
+  const url = "https://a.example.com/";
+
+  it("accepts anonymous GETs", () => {
+    assert.equal(isCacheableRequest(request(url)), true);
+    assert.equal(
+      isCacheableRequest(request(url, { headers: { Cookie: "" } })),
+      true
+    );
+  });
+
+  it("bypasses other methods", () => {
+    assert.equal(isCacheableRequest(request(url, { method: "POST" })), false);
+    assert.equal(isCacheableRequest(request(url, { method: "HEAD" })), false);
+  });
+
+  it("bypasses requests with an Authorization header", () => {
+    const headers = { Authorization: "Bearer token" };
+    assert.equal(isCacheableRequest(request(url, { headers })), false);
+  });
+
+  it("bypasses requests with a cookie", () => {
+    const headers = { Cookie: "theme=ImRhcmsi" };
+    assert.equal(isCacheableRequest(request(url, { headers })), false);
+  });
+
+  it("ignores the cookies that never personalize a page", () => {
+    const ignored = ["consent", "_ga"];
+    const only = request(url, { headers: { Cookie: "consent=1; _ga=GA1.2" } });
+    const mixed = request(url, { headers: { Cookie: "consent=1; session=a" } });
+    assert.equal(isCacheableRequest(only, ignored), true);
+    assert.equal(isCacheableRequest(mixed, ignored), false);
+  });
+});
+
+describe("isCacheableResponse", () => {
+  it("stores plain 200 documents", () => {
+    assert.equal(isCacheableResponse(200, new Headers()), true);
+    const headers = new Headers({ "Cache-Control": "public, max-age=60" });
+    assert.equal(isCacheableResponse(200, headers), true);
+  });
+
+  it("never stores other statuses", () => {
+    for (const status of [201, 301, 404, 500]) {
+      assert.equal(isCacheableResponse(status, new Headers()), false);
+    }
+  });
+
+  it("never stores responses setting a cookie or marked private", () => {
+    const cases: Record<string, string>[] = [
+      { "Set-Cookie": "theme=x" },
+      { "Cache-Control": "private, max-age=60" },
+      { "Cache-Control": "No-Store" },
+    ];
+    for (const headers of cases) {
+      assert.equal(isCacheableResponse(200, new Headers(headers)), false);
+    }
+  });
+});
+
+describe("getHtmlCachePolicy", () => {
+  const modules = {
+    root: {},
+    layout: { handle: { htmlCache: POLICY } },
+    home: { handle: {} },
+    post: { handle: { htmlCache: false } },
+  };
+
+  it("uses the deepest route with an htmlCache entry", () => {
+    assert.deepEqual(
+      getHtmlCachePolicy(modules, ["root", "layout", "home"]),
+      POLICY
+    );
+    assert.equal(getHtmlCachePolicy(modules, ["root", "layout", "post"]), null);
+    assert.equal(getHtmlCachePolicy(modules, ["root"]), null);
+  });
+});
+
+describe("htmlCacheState", () => {
+  const storedAt = 1_000_000;
+
+  it("is fresh, stale, then expired", () => {
+    const cached = entry("", storedAt);
+    assert.equal(htmlCacheState(cached, storedAt), "fresh");
+    assert.equal(htmlCacheState(cached, storedAt + 59_999), "fresh");
+    assert.equal(htmlCacheState(cached, storedAt + 60_000), "stale");
+    assert.equal(htmlCacheState(cached, storedAt + 359_999), "stale");
+    assert.equal(htmlCacheState(cached, storedAt + 360_000), "expired");
+  });
+
+  it("expires right after maxAge without staleWhileRevalidate", () => {
+    const cached = { ...entry("", storedAt), staleWhileRevalidate: 0 };
+    assert.equal(htmlCacheState(cached, storedAt + 60_000), "expired");
+  });
+
+  it("reports the age in whole seconds", () => {
+    const cached = entry("", storedAt);
+    assert.equal(htmlCacheAge(cached, storedAt + 61_900), "61");
+    assert.equal(htmlCacheAge(cached, storedAt - 5_000), "0");
+  });
+});
+
+describe("nonce placeholder", () => {
+  const html = (nonce: string) =>
+    `<style nonce="${nonce}"></style><script nonce="${nonce}"></script>`;
+
+  it("stores no nonce and restores the request's one", () => {
+    const cached = createHtmlCacheEntry(html("n0nce1"), POLICY, "n0nce1");
+    assert.ok(!cached.html.includes("n0nce1"));
+    assert.equal(restoreCachedHtml(cached, "n0nce2"), html("n0nce2"));
+  });
+
+  it("keeps the html as is without a nonce", () => {
+    const cached = createHtmlCacheEntry("<p>a</p>", POLICY);
+    assert.equal(cached.html, "<p>a</p>");
+    assert.equal(cached.staleWhileRevalidate, 300);
+    assert.equal(restoreCachedHtml(cached), "<p>a</p>");
+  });
+});
+
+describe("createMemoryHtmlCacheStore", () => {
+  it("evicts the least recently used entries first", async () => {
+    const store = createMemoryHtmlCacheStore({ maxSize: 30 });
+    await store.set("a", entry("a".repeat(10)));
+    await store.set("b", entry("b".repeat(10)));
+    await store.set("c", entry("c".repeat(10)));
+    // "a" becomes the most recently used
+    assert.ok(await store.get("a"));
+    await store.set("d", entry("d".repeat(10)));
+
+    assert.equal(await store.get("b"), undefined);
+    assert.ok(await store.get("a"));
+    assert.ok(await store.get("c"));
+    assert.ok(await store.get("d"));
+  });
+
+  it("counts UTF-8 bytes and skips entries larger than the store", async () => {
+    const store = createMemoryHtmlCacheStore({ maxSize: 8 });
+    await store.set("small", entry("ab"));
+    await store.set("large", entry("☕☕☕"));
+    assert.equal(await store.get("large"), undefined);
+    assert.ok(await store.get("small"));
+  });
+
+  it("replaces an entry without counting it twice", async () => {
+    const store = createMemoryHtmlCacheStore({ maxSize: 20 });
+    await store.set("a", entry("a".repeat(10)));
+    await store.set("a", entry("A".repeat(10)));
+    await store.set("b", entry("b".repeat(10)));
+    assert.equal((await store.get("a"))?.html, "A".repeat(10));
+    assert.ok(await store.get("b"));
+  });
+
+  it("drops expired entries and deletes on request", async () => {
+    const store = createMemoryHtmlCacheStore();
+    await store.set("old", entry("x", Date.now() - 400_000));
+    await store.set("new", entry("y"));
+    assert.equal(await store.get("old"), undefined);
+    await store.delete("new");
+    assert.equal(await store.get("new"), undefined);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Full-page HTML cache for anonymous traffic
+ *
+ * Rendering a document and rewriting its head with the critical CSS is the
+ * bulk of a request's cost, and pages like home and about rarely change.
+ * Routes opt in from their module:
+ *
+ *   export const handle: HtmlCacheHandle = {
+ *     htmlCache: { maxAge: 300, staleWhileRevalidate: 3600 },
+ *   };
+ *
+ * The deepest matched route with an `htmlCache` entry decides (a layout
+ * can enable it for its children, a child can opt out with `false`).
+ *
+ * Entries are keyed by host, path and query, plus what changes the markup
+ * for the same URL: the inlined viewport variant and bot vs browser
+ * (complete vs streamed HTML). They are served fresh for `maxAge` seconds,
+ * then for `staleWhileRevalidate` more seconds while a background render
+ * replaces them.
+ *
+ * Never cached: requests with an Authorization header or a cookie (other
+ * than IGNORED_COOKIES), and responses that are not a plain 200, set a
+ * cookie or are marked private / no-store by the route headers. The CSP
+ * nonce is swapped for a placeholder in stored HTML and a fresh one is put
+ * back on every hit.
+ *
+ * Entries live in an in-memory LRU store by default; the server can pass
+ * another HtmlCacheStore (e.g. Redis, shared by all instances) as
+ * `htmlCache` in the load context, or `false` to disable caching.
+ *
+ * Production only: the dev server re-renders on every change.
+ */
+
+export interface HtmlCachePolicy {
+  // Seconds an entry is served as is
+  maxAge: number;
+  // Seconds it is still served after that, while being re-rendered
+  staleWhileRevalidate?: number;
+}
+
+// Route module `handle` shape
+export interface HtmlCacheHandle {
+  htmlCache?: HtmlCachePolicy | false;
+}
+
+export interface HtmlCacheEntry {
+  // Document with NONCE_PLACEHOLDER in place of the CSP nonce
+  html: string;
+  // Date.now() at render time
+  storedAt: number;
+  maxAge: number;
+  staleWhileRevalidate: number;
+}
+
+/**
+ * Storage of the cache entries. A shared store can expire keys after
+ * `maxAge + staleWhileRevalidate` seconds: they are never served later.
+ */
+export interface HtmlCacheStore {
+  get(key: string): Promise<HtmlCacheEntry | undefined>;
+  set(key: string, entry: HtmlCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface HtmlCacheLoadContext {
+  htmlCache?: HtmlCacheStore | false;
+}
+
+export type HtmlCacheState = "fresh" | "stale" | "expired";
+
+// Cookies that never personalize a page (consent banners, analytics);
+// any other cookie bypasses the cache
+const IGNORED_COOKIES: string[] = [];
+
+const NONCE_PLACEHOLDER = "__HTML_CACHE_NONCE__";
+
+/**
+ * Caching policy of the matched routes (null when not cached)
+ */
+export function getHtmlCachePolicy(
+  routeModules: Record<string, { handle?: unknown } | undefined>,
+  routeIds: string[]
+): HtmlCachePolicy | null {
+  for (const routeId of [...routeIds].reverse()) {
+    const handle = routeModules[routeId]?.handle as HtmlCacheHandle | undefined;
+    if (handle?.htmlCache !== undefined) {
+      return handle.htmlCache || null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a request may be answered from the cache: anonymous GETs only
+ */
+export function isCacheableRequest(
+  request: Request,
+  ignoredCookies: string[] = IGNORED_COOKIES
+): boolean {
+  if (request.method.toUpperCase() !== "GET") return false;
+  if (request.headers.has("Authorization")) return false;
+
+  const cookie = request.headers.get("Cookie");
+  if (!cookie) return true;
+  return cookie
+    .split(";")
+    .map((pair) => pair.split("=")[0].trim())
+    .every((name) => !name || ignoredCookies.includes(name));
+}
+
+/**
+ * Whether a rendered document may be stored, given its status and the
+ * headers set by the routes
+ */
+export function isCacheableResponse(status: number, headers: Headers): boolean {
+  if (status !== 200 || headers.has("Set-Cookie")) return false;
+  const cacheControl = headers.get("Cache-Control") ?? "";
+  return !/\b(?:private|no-store)\b/i.test(cacheControl);
+}
+
+export function htmlCacheKey(
+  request: Request,
+  variant: { viewport: string | null; bot: boolean }
+): string {
+  const url = new URL(request.url);
+  return [
+    variant.bot ? "bot" : "browser",
+    variant.viewport ?? "any",
+    `${url.host}${url.pathname}${url.search}`,
+  ].join(" ");
+}
+
+export function htmlCacheState(
+  entry: HtmlCacheEntry,
+  now = Date.now()
+): HtmlCacheState {
+  const age = (now - entry.storedAt) / 1000;
+  if (age < entry.maxAge) return "fresh";
+  if (age < entry.maxAge + entry.staleWhileRevalidate) return "stale";
+  return "expired";
+}
+
+/**
+ * Age header value of an entry, in whole seconds
+ */
+export function htmlCacheAge(entry: HtmlCacheEntry, now = Date.now()): string {
+  return String(Math.max(0, Math.floor((now - entry.storedAt) / 1000)));
+}
+
+export function createHtmlCacheEntry(
+  html: string,
+  policy: HtmlCachePolicy,
+  nonce?: string
+): HtmlCacheEntry {
+  return {
+    html: nonce ? html.replaceAll(nonce, NONCE_PLACEHOLDER) : html,
+    storedAt: Date.now(),
+    maxAge: policy.maxAge,
+    staleWhileRevalidate: policy.staleWhileRevalidate ?? 0,
+  };
+}
+
+/**
+ * Stored document with the request's nonce
+ */
+export function restoreCachedHtml(
+  entry: HtmlCacheEntry,
+  nonce?: string
+): string {
+  return entry.html.replaceAll(NONCE_PLACEHOLDER, nonce ?? "");
+}
+
+export interface MemoryHtmlCacheStoreOptions {
+  // Max total size of the stored documents, in UTF-8 bytes
+  maxSize?: number;
+}
+
+/**
+ * In-memory store, least recently used entries evicted first
+ */
+export function createMemoryHtmlCacheStore({
+  maxSize = 50 * 1024 * 1024,
+}: MemoryHtmlCacheStoreOptions = {}): HtmlCacheStore {
+  // Insertion order is recency order
+  const entries = new Map<string, { entry: HtmlCacheEntry; size: number }>();
+  let totalSize = 0;
+
+  function remove(key: string) {
+    const stored = entries.get(key);
+    if (!stored) return;
+    entries.delete(key);
+    totalSize -= stored.size;
+  }
+
+  return {
+    async get(key) {
+      const stored = entries.get(key);
+      if (!stored) return undefined;
+      if (htmlCacheState(stored.entry) === "expired") {
+        remove(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, stored);
+      return stored.entry;
+    },
+
+    async set(key, entry) {
+      const size = Buffer.byteLength(entry.html);
+      remove(key);
+      if (size > maxSize) return;
+
+      for (const oldest of entries.keys()) {
+        if (totalSize + size <= maxSize) break;
+        remove(oldest);
+      }
+      entries.set(key, { entry, size });
+      totalSize += size;
+    },
+
+    async delete(key) {
+      remove(key);
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Readable } from "node:stream";
+import {
+  createHtmlRewriteStream,
+  rewriteHtml,
+  type HtmlRewriteOptions,
+} from "./html-rewriter";
+
+const DOCUMENT =
+  '<!DOCTYPE html><html><head data-x="1"><title>Café ☕ 🚀</title>' +
+  '<link rel="stylesheet" href="/root.css"><link rel="icon" href="/f.ico">' +
+  "</HEAD ><body><p>Ünïcödé 日本語 🎉</p></body></html>";
+
+const OPTIONS: HtmlRewriteOptions = {
+  head: "<style>.a{}</style>",
+  removeLink: (tag) => tag.includes("stylesheet"),
+  bodyEnd: "<script>end()</script>",
+};
+
+const EXPECTED =
+  '<!DOCTYPE html><html><head data-x="1"><title>Café ☕ 🚀</title>' +
+  '<link rel="icon" href="/f.ico"><style>.a{}</style>' +
+  "</HEAD ><body><p>Ünïcödé 日本語 🎉</p><script>end()</script></body></html>";
+
+// Stream `chunks` through the rewriter and collect the output
+async function rewriteChunks(
+  chunks: Buffer[],
+  options: HtmlRewriteOptions | Promise<HtmlRewriteOptions>
+): Promise<string> {
+  const output: Buffer[] = [];
+  const stream = Readable.from(chunks).pipe(createHtmlRewriteStream(options));
+  for await (const chunk of stream) output.push(Buffer.from(chunk));
+  return Buffer.concat(output).toString("utf8");
+}
+
+function splitAt(bytes: Buffer, points: number[]): Buffer[] {
+  const bounds = [0, ...points, bytes.length];
+  return bounds.slice(1).map((end, i) => bytes.subarray(bounds[i], end));
+}
+
+// Deterministic pseudo-random split points (mulberry32)
+function randomSplits(length: number, seed: number): number[] {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const points = new Set<number>();
+  const count = 1 + Math.floor(next() * 12);
+  while (points.size < count) points.add(1 + Math.floor(next() * (length - 1)));
+  return [...points].sort((a, b) => a - b);
+}
+
+describe("rewriteHtml", () => {
+  it("rewrites a complete document", () => {
+    assert.equal(rewriteHtml(DOCUMENT, OPTIONS), EXPECTED);
+  });
+
+  it("leaves a document without </head> untouched", () => {
+    const html = "<html><body><p>no head</p></body></html>";
+    assert.equal(rewriteHtml(html, OPTIONS), html);
+  });
+});
+
+describe("createHtmlRewriteStream", () => {
+  const bytes = Buffer.from(DOCUMENT, "utf8");
+
+  it("gives the same output at every split point", async () => {
+    for (let point = 1; point < bytes.length; point++) {
+      const output = await rewriteChunks(splitAt(bytes, [point]), OPTIONS);
+      assert.equal(output, EXPECTED, `split at byte ${point}`);
+    }
+  });
+
+  it("gives the same output with one byte per chunk", async () => {
+    const chunks = [...bytes].map((byte) => Buffer.from([byte]));
+    assert.equal(await rewriteChunks(chunks, OPTIONS), EXPECTED);
+  });
+
+  it("gives the same output with random splits", async () => {
+    for (let seed = 1; seed <= 200; seed++) {
+      const points = randomSplits(bytes.length, seed);
+      const output = await rewriteChunks(splitAt(bytes, points), OPTIONS);
+      assert.equal(output, EXPECTED, `splits ${points.join(",")}`);
+    }
+  });
+
+  it("decodes a UTF-8 sequence split across chunks", async () => {
+    const emoji = DOCUMENT.indexOf("🚀");
+    const start = Buffer.byteLength(DOCUMENT.slice(0, emoji), "utf8");
+    for (let offset = 1; offset < 4; offset++) {
+      const output = await rewriteChunks(
+        splitAt(bytes, [start + offset]),
+        OPTIONS
+      );
+      assert.equal(output, EXPECTED, `split inside 🚀 at +${offset}`);
+    }
+  });
+
+  it("finds </head> and </body> split across chunks", async () => {
+    for (const tag of ["</HEAD >", "</body>"]) {
+      const index = Buffer.byteLength(
+        DOCUMENT.slice(0, DOCUMENT.indexOf(tag)),
+        "utf8"
+      );
+      for (let offset = 1; offset < tag.length; offset++) {
+        const output = await rewriteChunks(
+          splitAt(bytes, [index + offset]),
+          OPTIONS
+        );
+        assert.equal(output, EXPECTED, `${tag} split at +${offset}`);
+      }
+    }
+  });
+
+  it("waits for options given as a promise", async () => {
+    const options = new Promise<HtmlRewriteOptions>((resolve) =>
+      setTimeout(() => resolve(OPTIONS), 10)
+    );
+    assert.equal(await rewriteChunks(splitAt(bytes, [40]), options), EXPECTED);
+  });
+
+  it("passes the document through when the options reject", async () => {
+    const options = Promise.reject(new Error("CSS failed to load"));
+    options.catch(() => {});
+    const output = await rewriteChunks(splitAt(bytes, [40, 90]), options);
+    assert.equal(output, DOCUMENT);
+  });
+
+  it("passes a document without </head> through", async () => {
+    const html = "<html><body><p>no head ☕</p></body></html>";
+    const chunks = splitAt(Buffer.from(html, "utf8"), [7, 27]);
+    assert.equal(await rewriteChunks(chunks, OPTIONS), html);
+  });
+
+  it("appends bodyEnd when </body> never arrives", async () => {
+    const html = "<html><head></head><body><p>cut";
+    const chunks = splitAt(Buffer.from(html, "utf8"), [10, 20]);
+    assert.equal(
+      await rewriteChunks(chunks, OPTIONS),
+      "<html><head><style>.a{}</style></head><body><p>cut" + OPTIONS.bodyEnd
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { Transform } from "node:stream";
+import { StringDecoder } from "node:string_decoder";
+
+/**
+ * Streaming HTML head rewriter
+ *
+ * Small, chunk-boundary safe rewriting of a streamed HTML document:
+ * 1. Buffer until the closing head tag (matched case-insensitively,
+ *    searched incrementally so the buffer is never rescanned)
+ * 2. Drop <link> tags in the head that `removeLink` matches
+ * 3. Insert `head` markup right before the closing head tag, flush the head
+ * 4. Pass the body through, inserting `bodyEnd` before the closing body tag
+ *
+ * Bytes are decoded with a StringDecoder, so multibyte characters split
+ * across chunks are never corrupted. The same rewrite is available for
+ * complete documents via `rewriteHtml`.
+ */
+
+export interface HtmlRewriteOptions {
+  // Markup inserted right before </head>
+  head?: string;
+  // <link> tags inside <head> for which this returns true are removed
+  removeLink?: (tag: string) => boolean;
+  // Markup inserted right before </body> (appended at the end if missing)
+  bodyEnd?: string;
+}
+
+const HEAD_CLOSE = /<\/head\s*>/gi;
+const BODY_CLOSE = /<\/body\s*>/gi;
+const LINK_TAG = /<link\b[^>]*>/gi;
+
+// A closing tag split across chunks can only start at the last "<";
+// beyond this distance it is just text and is not held back
+const MAX_PARTIAL_TAG = 64;
+
+function partialTagStart(text: string): number {
+  const lt = text.lastIndexOf("<");
+  return lt !== -1 && text.length - lt <= MAX_PARTIAL_TAG ? lt : text.length;
+}
+
+function rewriteHead(head: string, options: HtmlRewriteOptions): string {
+  const { removeLink } = options;
+  return removeLink
+    ? head.replace(LINK_TAG, (tag) => (removeLink(tag) ? "" : tag))
+    : head;
+}
+
+function insertBeforeBodyEnd(html: string, markup: string): string {
+  BODY_CLOSE.lastIndex = 0;
+  const match = BODY_CLOSE.exec(html);
+  return match
+    ? html.slice(0, match.index) + markup + html.slice(match.index)
+    : html + markup;
+}
+
+/**
+ * Rewrite a complete HTML document
+ */
+export function rewriteHtml(html: string, options: HtmlRewriteOptions): string {
+  HEAD_CLOSE.lastIndex = 0;
+  const match = HEAD_CLOSE.exec(html);
+  if (!match) return html;
+
+  const rewritten =
+    rewriteHead(html.slice(0, match.index), options) +
+    (options.head ?? "") +
+    html.slice(match.index);
+
+  return options.bodyEnd
+    ? insertBeforeBodyEnd(rewritten, options.bodyEnd)
+    : rewritten;
+}
+
+/**
+ * Create a Transform that rewrites a streamed HTML document. Options may be
+ * a promise (e.g. CSS still loading); the head is held until it resolves.
+ * If it rejects, the document is passed through unchanged.
+ */
+export function createHtmlRewriteStream(
+  options: HtmlRewriteOptions | Promise<HtmlRewriteOptions>
+): Transform {
+  const decoder = new StringDecoder("utf8");
+  let state: "head" | "body" | "done" = "head";
+  let pending = "";
+  let searchFrom = 0;
+  let bodyEnd = "";
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const text = decoder.write(chunk);
+
+      if (state === "head") {
+        pending += text;
+        HEAD_CLOSE.lastIndex = searchFrom;
+        const match = HEAD_CLOSE.exec(pending);
+
+        if (!match) {
+          // Resume the search where a partial closing tag could start
+          searchFrom = partialTagStart(pending);
+          callback();
+          return;
+        }
+
+        const head = pending.slice(0, match.index);
+        const rest = pending.slice(match.index);
+        pending = "";
+
+        Promise.resolve(options)
+          .then((resolved) => {
+            bodyEnd = resolved.bodyEnd ?? "";
+            state = bodyEnd ? "body" : "done";
+            this.push(rewriteHead(head, resolved) + (resolved.head ?? ""));
+            this.push(passBody(rest));
+            callback();
+          })
+          .catch(() => {
+            state = "done";
+            callback(null, head + rest);
+          });
+        return;
+      }
+
+      callback(null, passBody(text));
+    },
+
+    flush(callback) {
+      const text = pending + decoder.end();
+
+      if (state === "head") {
+        // Never saw </head>: emit the document untouched
+        callback(null, text);
+        return;
+      }
+
+      if (state === "body") {
+        // </body> never arrived: append at the end
+        callback(null, text + bodyEnd);
+        return;
+      }
+
+      callback(null, text);
+    },
+  });
+
+  // Body pass-through: holds back a possible partial tag so a </body> split
+  // across chunks is still found; the tail is carried in `pending`
+  function passBody(text: string): string {
+    if (state !== "body") return text;
+
+    const buffered = pending + text;
+    BODY_CLOSE.lastIndex = 0;
+    const match = BODY_CLOSE.exec(buffered);
+
+    if (match) {
+      state = "done";
+      pending = "";
+      return (
+        buffered.slice(0, match.index) + bodyEnd + buffered.slice(match.index)
+      );
+    }
+
+    const cut = partialTagStart(buffered);
+    pending = buffered.slice(cut);
+    return buffered.slice(0, cut);
+  }
+}
@@ -0,0 +1,105 @@
+import { loadCriticalCSS } from "./beasties-processor";
+import { assetHref } from "./critical-css-config";
+import { getPreloadFontHrefs } from "./fonts";
+import criticalCssConfig from "../../critical-css.config";
+
+/**
+ * Preload hints for document responses
+ *
+ * The critical CSS rewrite holds the HTML until the whole <head> is ready,
+ * so the browser would discover fonts, the non-critical stylesheet and the
+ * route modules late. The same resources are announced up front instead:
+ * 1. As `103 Early Hints`, when the server provides an `earlyHints`
+ *    callback in the load context (Node's `res.writeEarlyHints`)
+ * 2. As `Link` headers on the final response
+ *
+ * Resources come from fonts.ts (faces used above the fold), React Router's
+ * assets manifest (entry + matched route modules and their imports, route
+ * CSS) and the critical CSS manifest (non-critical stylesheet). CSS that
+ * gets inlined is never preloaded.
+ *
+ * Production only: Vite's dev server serves modules on demand.
+ */
+
+interface ManifestRoute {
+  module: string;
+  imports?: string[];
+  css?: string[];
+}
+
+export interface PreloadAssetsManifest {
+  entry: { module: string; imports: string[] };
+  routes: Record<string, ManifestRoute | undefined>;
+}
+
+export interface EarlyHintsLoadContext {
+  // Sends a 103 Early Hints response with the given Link header values
+  earlyHints?: (links: string[]) => void;
+}
+
+function fileName(href: string): string {
+  return href.slice(href.lastIndexOf("/") + 1);
+}
+
+/**
+ * Link header values for a document, in the order the browser needs them
+ */
+export async function getPreloadLinks(
+  manifest: PreloadAssetsManifest,
+  routeIds: string[]
+): Promise<string[]> {
+  if (!import.meta.env.PROD) {
+    return [];
+  }
+
+  const links = getPreloadFontHrefs(criticalCssConfig).map(
+    (href) => `<${href}>; rel=preload; as=font; type="font/woff2"; crossorigin`
+  );
+
+  const loaded = await loadCriticalCSS();
+  const { inline } = criticalCssConfig.features;
+  // Files the critical CSS rewrite removes from the document
+  const replaced = new Set(
+    loaded
+      ? [
+          ...(inline ? [loaded.manifest.critical?.file] : []),
+          loaded.manifest.nonCritical?.file,
+          ...loaded.manifest.replaced,
+        ].filter((file): file is string => file !== undefined)
+      : []
+  );
+
+  // Stylesheets the document still loads from the network
+  const styles = new Set<string>();
+  if (loaded && !inline) {
+    // Route bundles are linked instead of inlined
+    for (const routeId of routeIds) {
+      const entry = loaded.manifest.routes[routeId];
+      if (entry) styles.add(assetHref(criticalCssConfig, entry.file));
+    }
+  }
+  if (loaded?.manifest.nonCritical) {
+    styles.add(assetHref(criticalCssConfig, loaded.manifest.nonCritical.file));
+  }
+  for (const routeId of routeIds) {
+    for (const href of manifest.routes[routeId]?.css ?? []) {
+      if (!replaced.has(fileName(href))) styles.add(href);
+    }
+  }
+  for (const href of styles) {
+    links.push(`<${href}>; rel=preload; as=style`);
+  }
+
+  const modules = new Set([manifest.entry.module, ...manifest.entry.imports]);
+  for (const routeId of routeIds) {
+    const route = manifest.routes[routeId];
+    if (!route) continue;
+    modules.add(route.module);
+    for (const href of route.imports ?? []) modules.add(href);
+  }
+  for (const href of modules) {
+    links.push(`<${href}>; rel=modulepreload`);
+  }
+
+  return links;
+}
@@ -0,0 +1,68 @@
+/**
+ * Error handling for document rendering
+ *
+ * Once the shell has been sent, the status line and headers are out: a
+ * later render error can no longer change the response, so it is only
+ * reported. Reports go to the `reportError` callback the server passes in
+ * the load context (error tracking, structured logs), or to the console
+ * when there is none.
+ *
+ * When the shell itself fails to render there is nothing to stream, and a
+ * static error document is sent instead (no scripts, no external assets,
+ * so it renders even when the build or the assets server is broken).
+ */
+
+export type SsrErrorPhase =
+  // React Router's handleError: loaders, actions, server rendering
+  | "request"
+  // React rendering after the shell was sent (streamed Suspense content)
+  | "stream"
+  // The shell failed: the static error document was sent
+  | "shell"
+  // The render was aborted on timeout (before or after the shell)
+  | "timeout";
+
+export interface SsrErrorInfo {
+  phase: SsrErrorPhase;
+  request: Request;
+}
+
+export interface SsrErrorLoadContext {
+  // Receives the render errors that cannot change the response status
+  reportError?: (error: unknown, info: SsrErrorInfo) => void;
+}
+
+/**
+ * Report an error through the load context hook (console fallback)
+ */
+export function reportSsrError(
+  loadContext: SsrErrorLoadContext | undefined,
+  error: unknown,
+  info: SsrErrorInfo
+): void {
+  if (loadContext?.reportError) {
+    loadContext.reportError(error, info);
+    return;
+  }
+  console.error(
+    `[SSR] ❌ ${info.phase} error (${info.request.method} ${new URL(info.request.url).pathname}):`,
+    error
+  );
+}
+
+/**
+ * Status of the static error document: a status that already is an error
+ * (e.g. 404 from a loader) is kept, anything else becomes 500
+ */
+export function shellErrorStatus(status: number): number {
+  return status >= 400 ? status : 500;
+}
+
+/**
+ * Minimal self-contained HTML document for a failed shell
+ */
+export function renderErrorDocument(status: number, nonce?: string): string {
+  const title = status === 404 ? "Page not found" : "Something went wrong";
+  const nonceAttr = nonce ? ` nonce="${nonce}"` : "";
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><meta name="robots" content="noindex"><title>${status} · ${title}</title><style${nonceAttr}>body{margin:0;min-height:100vh;display:grid;place-content:center;font-family:system-ui,sans-serif;text-align:center;color:#1f2328}h1{margin:0 0 .5rem}</style></head><body><main><h1>${status}</h1><p>${title}. Please try again later.</p></main></body></html>`;
+}
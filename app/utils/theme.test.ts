@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { localRedirectPath } from "./theme";
+
+const request = new Request("https://shop.example.com/theme", {
+  method: "POST",
+});
+
+describe("localRedirectPath", () => {
+  it("keeps a path of this site, with its query and hash", () => {
+    assert.equal(localRedirectPath("/about", request), "/about");
+    assert.equal(
+      localRedirectPath("/search?q=a#results", request),
+      "/search?q=a#results"
+    );
+  });
+
+  it("normalizes the path", () => {
+    assert.equal(localRedirectPath("/a/../about", request), "/about");
+  });
+
+  it("rejects protocol-relative URLs", () => {
+    assert.equal(localRedirectPath("//evil.com", request), null);
+    assert.equal(localRedirectPath("//evil.com/about", request), null);
+  });
+
+  it("rejects backslashes resolved as slashes", () => {
+    assert.equal(localRedirectPath("/\\evil.com", request), null);
+    assert.equal(localRedirectPath("/\\/evil.com", request), null);
+  });
+
+  it("rejects tabs and newlines stripped by the URL parser", () => {
+    assert.equal(localRedirectPath("/\t/evil.com", request), null);
+    assert.equal(localRedirectPath("/\n/evil.com", request), null);
+    assert.equal(localRedirectPath("/\r\n\\evil.com", request), null);
+  });
+
+  it("rejects absolute URLs and other values", () => {
+    assert.equal(localRedirectPath("https://evil.com/", request), null);
+    assert.equal(localRedirectPath("javascript:alert(1)", request), null);
+    assert.equal(localRedirectPath("about", request), null);
+    assert.equal(localRedirectPath("", request), null);
+    assert.equal(localRedirectPath(null, request), null);
+  });
+});
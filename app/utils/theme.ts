@@ -0,0 +1,80 @@
+import { createCookie, useFetchers, useRouteLoaderData } from "react-router";
+import { themeNames } from "./design-tokens";
+
+/**
+ * Color theme preference
+ *
+ * Themes come from app/styles/design-tokens.json (`themes`): their colors
+ * are custom properties set on `<html data-theme="<name>">`, part of the
+ * critical CSS. Without a data-theme the media defaults apply
+ * (prefers-color-scheme: dark picks the dark theme, ...).
+ *
+ * The preference ("system" or a theme name) is kept in a cookie, read by
+ * the root loader so the server renders the right data-theme: no flash of
+ * the wrong theme on first paint. It is changed by posting `theme` to
+ * THEME_ACTION (app/routes/theme.tsx), from a fetcher or a plain form.
+ *
+ * Documents requested with the cookie bypass the HTML cache (see
+ * html-cache.ts); the cached ones are rendered with "system". For the same
+ * reason server.js does not serve the prerendered loader data
+ * (_root.data): a client-side navigation would reset the theme.
+ */
+
+export type Theme = (typeof themeNames)[number];
+export type ThemePreference = Theme | "system";
+
+export const THEME_PREFERENCES: ThemePreference[] = ["system", ...themeNames];
+
+export const THEME_ACTION = "/theme";
+
+export const themeCookie = createCookie("theme", {
+  path: "/",
+  sameSite: "lax",
+  httpOnly: true,
+  maxAge: 60 * 60 * 24 * 365,
+});
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return THEME_PREFERENCES.includes(value as ThemePreference);
+}
+
+/**
+ * Preference stored in the request's cookie ("system" when unset or invalid)
+ */
+export async function getThemePreference(
+  request: Request
+): Promise<ThemePreference> {
+  const value = await themeCookie.parse(request.headers.get("Cookie"));
+  return isThemePreference(value) ? value : "system";
+}
+
+/**
+ * Path to redirect to after a plain form post: `redirectTo` resolved against
+ * the request URL, kept only when it stays on this origin (no
+ * "//evil.com", "/\evil.com" or "/<TAB>/evil.com", which browsers resolve
+ * to another host)
+ */
+export function localRedirectPath(
+  redirectTo: unknown,
+  request: Request
+): string | null {
+  if (typeof redirectTo !== "string" || !redirectTo.startsWith("/")) {
+    return null;
+  }
+  const origin = new URL(request.url).origin;
+  const url = new URL(redirectTo, request.url);
+  return url.origin === origin ? url.pathname + url.search + url.hash : null;
+}
+
+/**
+ * Current preference: the one being submitted, else the root loader's
+ */
+export function useThemePreference(): ThemePreference {
+  const rootData = useRouteLoaderData<{ theme: ThemePreference }>("root");
+  const pending = useFetchers()
+    .filter((fetcher) => fetcher.formAction === THEME_ACTION)
+    .map((fetcher) => fetcher.formData?.get("theme"))
+    .find(isThemePreference);
+
+  return pending ?? rootData?.theme ?? "system";
+}
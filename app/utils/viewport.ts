@@ -0,0 +1,51 @@
+/**
+ * Viewport detection for the critical CSS variants
+ *
+ * The build splits the inlined critical CSS into a mobile and a desktop
+ * variant at the desktop breakpoint ($bpval-md); SSR picks one per request
+ * from Sec-CH-UA-Mobile (?1 is mobile, ?0 is desktop).
+ *
+ * The choice only depends on that header, so shared caches can keep one
+ * copy per value (Vary: Sec-CH-UA-Mobile). The viewport width or the
+ * User-Agent would split them per pixel / per browser build. Without the
+ * hint (non-Chromium browsers) no variant is chosen and the full critical
+ * CSS is inlined, as before.
+ */
+
+export type Viewport = "mobile" | "desktop";
+
+export const VIEWPORTS: Viewport[] = ["mobile", "desktop"];
+
+export interface ViewportHints {
+  mobile?: boolean;
+}
+
+// Client hint the server asks for (Accept-CH) and varies on
+const VIEWPORT_CLIENT_HINT = "Sec-CH-UA-Mobile";
+
+/**
+ * Read the viewport hint of a request (nothing when it is absent or
+ * malformed)
+ */
+export function readViewportHints(headers: Headers): ViewportHints {
+  const mobile = headers.get(VIEWPORT_CLIENT_HINT)?.trim();
+  return mobile === "?1" || mobile === "?0" ? { mobile: mobile === "?1" } : {};
+}
+
+/**
+ * Variant for the hints
+ */
+export function selectViewport(hints: ViewportHints): Viewport | null {
+  if (hints.mobile === undefined) return null;
+  return hints.mobile ? "mobile" : "desktop";
+}
+
+/**
+ * Ask for the viewport client hint and mark the document as varying on it.
+ * Only for documents that get a viewport variant (see hasViewportVariants
+ * in beasties-processor.ts)
+ */
+export function applyViewportHintHeaders(headers: Headers): void {
+  headers.set("Accept-CH", VIEWPORT_CLIENT_HINT);
+  headers.append("Vary", VIEWPORT_CLIENT_HINT);
+}
@@ -1,9 +1,11 @@
 import { Link } from "react-router";
 
+import { cx } from "../../utils/cx";
+
 export function About() {
   return (
     <main>
-      <div className="tp-w--s">about</div>
+      <div className={cx("tp-w--s")}>about</div>
       <Link to="/">Go to home page</Link>
     </main>
   );
@@ -1,9 +1,11 @@
 import { Link } from "react-router";
 
+import { cx } from "../../utils/cx";
+
 export function Home() {
   return (
-    <main className="p--200">
-      <div className="tp-w--s">home</div>
+    <main className={cx("p--200")}>
+      <div className={cx("tp-w--s")}>home</div>
       <Link to="/about">Go to about page</Link>
     </main>
   );
@@ -1,11 +1,12 @@
 import { Link } from "react-router";
 
 import { Search } from "../../components/post/search/search";
+import { cx } from "../../utils/cx";
 
 export function Post({ name }: { name: string }) {
   return (
-    <main className="p--200">
-      <div className="tp-w--s">post about: {name}</div>
+    <main className={cx("p--200")}>
+      <div className={cx("tp-w--s")}>post about: {name}</div>
       <Link to="/">Go to home page</Link>
       <Search />
     </main>
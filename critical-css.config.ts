@@ -0,0 +1,16 @@
+import { defineCriticalCssConfig } from "./app/utils/critical-css-config";
+
+/**
+ * Critical CSS pipeline configuration
+ *
+ * Read by the Vite plugins (vite.config.ts) and by the SSR runtime. Every
+ * option and its default is described in app/utils/critical-css-config.ts.
+ */
+export default defineCriticalCssConfig({
+  // Inlined critical CSS limits (bytes); the build fails when exceeded
+  budget: {
+    maxSize: 24 * 1024,
+    maxGzipSize: 6 * 1024,
+    maxComponentSize: 8 * 1024,
+  },
+});
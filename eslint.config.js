@@ -11,6 +11,13 @@ export default [
     ignores: ["node_modules/", "dist/", "build/", ".react-router/"],
   },
   js.configs.recommended,
+  {
+    // Production server, run by Node as is
+    files: ["server.js"],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
   {
     files: ["**/*.ts", "**/*.tsx"],
     languageOptions: {
@@ -1,7 +1,26 @@
 import type { Config } from "@react-router/dev/config";
+import criticalCssConfig from "./critical-css.config";
+
+// Posts rendered to static HTML at build time (their loader fetches the
+// post during the build): comma-separated slugs in PRERENDER_POST_SLUGS,
+// e.g. PRERENDER_POST_SLUGS=1,2 yarn build
+const PRERENDERED_POST_SLUGS = (process.env.PRERENDER_POST_SLUGS ?? "")
+  .split(",")
+  .map((slug) => slug.trim())
+  .filter(Boolean);
 
 export default {
   // Config options...
   // Server-side render by default, to enable SPA mode set this to `false`
   ssr: true,
+  // Shared with the critical CSS pipeline
+  appDirectory: criticalCssConfig.appDir,
+  buildDirectory: criticalCssConfig.buildDir,
+  // Static HTML (critical CSS inlined) and .data files in build/client/,
+  // for static hosting; with `ssr: false` index.html is prerendered too
+  prerender: [
+    "/",
+    "/about",
+    ...PRERENDERED_POST_SLUGS.map((slug) => `/${slug}`),
+  ],
 } satisfies Config;
@@ -0,0 +1,41 @@
+import path from "path";
+import criticalCssConfig from "../critical-css.config";
+import { generateDesignTokens } from "../vite-plugins/design-tokens";
+import { writeUtilityClassTypes } from "../vite-plugins/utility-classes";
+
+/**
+ * Generate the modules of app/.internal that the app imports, without Vite
+ *
+ * app/utils/design-tokens.ts and app/utils/cx.ts import generated modules
+ * (app/.internal is gitignored). The Vite plugins write them on dev / build;
+ * this writes them for `yarn typecheck` and after `yarn install`, so a
+ * fresh clone type-checks before any dev server or build has run:
+ * 1. The design tokens (Sass partials + TypeScript module)
+ * 2. The UtilityClass union, compiled from the utilities entry (which uses
+ *    the token partials, hence the order)
+ */
+
+const appRoot = path.resolve(process.cwd(), criticalCssConfig.appDir);
+
+try {
+  const written = await generateDesignTokens(appRoot);
+  console.log(
+    `[Generate Types] 🎨 Design tokens${written === 0 ? " (up to date)" : ` (${written} file(s) written)`}`
+  );
+
+  const count = await writeUtilityClassTypes(
+    appRoot,
+    criticalCssConfig.entries.utilities
+  );
+  console.log(
+    count === null
+      ? "[Generate Types] 🏷️  Utility class types (up to date)"
+      : `[Generate Types] 🏷️  ${count} utility class type(s)`
+  );
+} catch (error) {
+  console.error(
+    "[Generate Types] ❌",
+    error instanceof Error ? error.message : error
+  );
+  process.exitCode = 1;
+}
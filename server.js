@@ -0,0 +1,170 @@
+/**
+ * Production server
+ *
+ * Serves the React Router build (same build/ layout as react-router-serve)
+ * with:
+ * - brotli / gzip compression (flushed per write, so streamed HTML is not
+ *   held back by the compressor)
+ * - cache headers per asset type: hashed assets are immutable, fonts and
+ *   images are cached for a while, other public files briefly, and
+ *   documents follow their route headers
+ * - `103 Early Hints` for document preloads (see app/utils/preload-links.ts)
+ * - GET /healthz (liveness: the process answers) and GET /readyz
+ *   (readiness: 503 once shutting down)
+ * - graceful shutdown on SIGTERM / SIGINT: readiness flips to 503, the
+ *   listener closes after SHUTDOWN_DELAY ms, in-flight requests finish and
+ *   keep-alive connections are closed; after SHUTDOWN_TIMEOUT ms the
+ *   remaining connections are dropped
+ *
+ * Environment: PORT (3000), HOST, SHUTDOWN_DELAY (0), SHUTDOWN_TIMEOUT
+ * (10000), BUILD_PATH (build/server/index.js).
+ */
+
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import zlib from "node:zlib";
+import compression from "compression";
+import express from "express";
+import morgan from "morgan";
+
+// Set before React is loaded (through React Router and the build)
+process.env.NODE_ENV ??= "production";
+const { createRequestHandler } = await import("@react-router/express");
+
+const port = Number(process.env.PORT ?? 3000);
+const host = process.env.HOST;
+const shutdownDelay = Number(process.env.SHUTDOWN_DELAY ?? 0);
+const shutdownTimeout = Number(process.env.SHUTDOWN_TIMEOUT ?? 10_000);
+const buildPath = path.resolve(
+  process.env.BUILD_PATH ?? "build/server/index.js"
+);
+
+const ONE_YEAR = 60 * 60 * 24 * 365;
+const ONE_WEEK = 60 * 60 * 24 * 7;
+const ONE_DAY = 60 * 60 * 24;
+const ONE_HOUR = 60 * 60;
+
+// Cache-Control of the (unhashed) public files, by extension
+const PUBLIC_CACHE_CONTROL = [
+  [/\.(?:woff2?|ttf|otf)$/, `public, max-age=${ONE_WEEK}`],
+  [/\.(?:png|jpe?g|gif|svg|webp|avif|ico)$/, `public, max-age=${ONE_DAY}`],
+];
+
+function publicCacheControl(file) {
+  const match = PUBLIC_CACHE_CONTROL.find(([pattern]) => pattern.test(file));
+  return match ? match[1] : `public, max-age=${ONE_HOUR}`;
+}
+
+const build = await import(pathToFileURL(buildPath).href);
+
+// URL path the build serves its files from; publicPath may be a CDN origin
+const publicPath = new URL(build.publicPath, "http://localhost").pathname;
+// Vite's assetsDir (e.g. /assets), where every file name carries a hash
+const assetsPath = path.posix.dirname(
+  new URL(build.assets.entry.module, "http://localhost").pathname
+);
+
+let draining = false;
+
+const app = express();
+app.disable("x-powered-by");
+
+// Health checks answer before anything else (no logging, no compression)
+app.get("/healthz", (_req, res) => {
+  res.set("Cache-Control", "no-store").type("text").send("ok");
+});
+app.get("/readyz", (_req, res) => {
+  res
+    .set("Cache-Control", "no-store")
+    .status(draining ? 503 : 200)
+    .type("text")
+    .send(draining ? "draining" : "ready");
+});
+
+// While draining, ask keep-alive clients to reconnect elsewhere
+app.use((_req, res, next) => {
+  if (draining) res.set("Connection", "close");
+  next();
+});
+
+app.use(
+  compression({
+    flush: zlib.constants.Z_SYNC_FLUSH,
+    brotli: {
+      flush: zlib.constants.BROTLI_OPERATION_FLUSH,
+    },
+  })
+);
+
+app.use(
+  assetsPath,
+  express.static(path.join(build.assetsBuildDirectory, assetsPath), {
+    immutable: true,
+    maxAge: ONE_YEAR * 1000,
+  })
+);
+// Unknown hashed assets are not pages
+app.use(assetsPath, (_req, res) => {
+  res.status(404).set("Cache-Control", "no-store").end();
+});
+const servePublic = express.static(build.assetsBuildDirectory, {
+  // Prerendered pages (<path>/index.html) are for static hosting; here
+  // documents are rendered, with their per-request headers
+  index: false,
+  redirect: false,
+  cacheControl: false,
+  setHeaders(res, file) {
+    res.set("Cache-Control", publicCacheControl(file));
+  },
+});
+// Same for their prerendered loader data (<path>.data, _root.data): it is
+// rendered per request too, with the request's cookies
+app.use(publicPath, (req, res, next) =>
+  req.path.endsWith(".data") ? next() : servePublic(req, res, next)
+);
+
+app.use(morgan("tiny"));
+
+app.all(
+  "*",
+  createRequestHandler({
+    build,
+    mode: process.env.NODE_ENV,
+    getLoadContext: (_req, res) => ({
+      earlyHints: (links) => res.writeEarlyHints({ link: links }),
+    }),
+  })
+);
+
+const server = app.listen(port, host, () => {
+  console.log(`[Server] 🚀 http://${host ?? "localhost"}:${port}`);
+});
+
+function shutdown(signal) {
+  if (draining) return;
+  draining = true;
+  console.log(`[Server] 🛑 ${signal} received, draining connections`);
+
+  setTimeout(() => {
+    server.close((error) => {
+      if (error) {
+        console.error("[Server] ❌ Failed to close:", error);
+        process.exit(1);
+      }
+      console.log("[Server] ✅ Drained, exiting");
+      process.exit(0);
+    });
+    server.closeIdleConnections();
+  }, shutdownDelay);
+
+  setTimeout(() => {
+    console.warn(
+      `[Server] ⚠️  Still busy after ${shutdownTimeout} ms, dropping connections`
+    );
+    server.closeAllConnections();
+    process.exit(1);
+  }, shutdownDelay + shutdownTimeout).unref();
+}
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
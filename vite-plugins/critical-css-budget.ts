@@ -0,0 +1,112 @@
+import { gzipSync } from "zlib";
+import {
+  groupRulesBySource,
+  SHARED_SOURCE,
+  UNATTRIBUTED_SOURCE,
+  type RuleAttribution,
+} from "./css-source-attribution";
+import type { CriticalCssBudget } from "../app/utils/critical-css-config";
+
+export type { CriticalCssBudget };
+
+/**
+ * Critical CSS Size Budgets
+ *
+ * Checks what a page actually inlines (root-*.css, plus the route bundle
+ * for every route that has one) against configured limits, and breaks the
+ * size down per source .scss file so a failure names the files responsible.
+ *
+ * All sizes are in bytes.
+ */
+
+export interface InlinedBundle {
+  // "global" for root-*.css alone, otherwise the route id
+  name: string;
+  files: Array<{ file: string; css: string }>;
+}
+
+export interface BudgetBundleReport {
+  name: string;
+  files: string[];
+  size: number;
+  gzipSize: number;
+  contributions: Array<{ source: string; size: number }>;
+  violations: string[];
+}
+
+export interface BudgetReport {
+  budget: CriticalCssBudget;
+  passed: boolean;
+  bundles: BudgetBundleReport[];
+}
+
+function formatKB(bytes: number): string {
+  return `${(bytes / 1024).toFixed(2)} KB`;
+}
+
+export function checkCriticalCssBudget(
+  bundles: InlinedBundle[],
+  attribution: RuleAttribution,
+  budget: CriticalCssBudget
+): BudgetReport {
+  const reports = bundles.map((bundle): BudgetBundleReport => {
+    const css = bundle.files.map((f) => f.css).join("");
+    const size = Buffer.byteLength(css);
+    const gzipSize = gzipSync(css).length;
+
+    const totals = new Map<string, number>();
+    for (const { css: fileCss } of bundle.files) {
+      for (const [source, { size: bytes }] of groupRulesBySource(
+        fileCss,
+        attribution
+      )) {
+        totals.set(source, (totals.get(source) ?? 0) + bytes);
+      }
+    }
+    const contributions = [...totals]
+      .map(([source, bytes]) => ({ source, size: bytes }))
+      .sort((a, b) => b.size - a.size);
+
+    const topContributors = contributions
+      .slice(0, 5)
+      .map((c) => `${c.source} (${formatKB(c.size)})`)
+      .join(", ");
+
+    const violations: string[] = [];
+    if (budget.maxSize !== undefined && size > budget.maxSize) {
+      violations.push(
+        `size ${formatKB(size)} exceeds ${formatKB(budget.maxSize)}; largest: ${topContributors}`
+      );
+    }
+    if (budget.maxGzipSize !== undefined && gzipSize > budget.maxGzipSize) {
+      violations.push(
+        `gzip size ${formatKB(gzipSize)} exceeds ${formatKB(budget.maxGzipSize)}; largest: ${topContributors}`
+      );
+    }
+    for (const { source, size: sourceSize } of contributions) {
+      if (source === UNATTRIBUTED_SOURCE || source === SHARED_SOURCE) continue;
+
+      const limit = budget.components?.[source] ?? budget.maxComponentSize;
+      if (limit !== undefined && sourceSize > limit) {
+        violations.push(
+          `${source} contributes ${formatKB(sourceSize)}, limit ${formatKB(limit)}`
+        );
+      }
+    }
+
+    return {
+      name: bundle.name,
+      files: bundle.files.map((f) => f.file),
+      size,
+      gzipSize,
+      contributions,
+      violations,
+    };
+  });
+
+  return {
+    budget,
+    passed: reports.every((r) => r.violations.length === 0),
+    bundles: reports,
+  };
+}
@@ -0,0 +1,427 @@
+import type { Plugin, ViteDevServer } from "vite";
+import { preprocessCSS, transformWithEsbuild } from "vite";
+import type { IncomingMessage, ServerResponse } from "http";
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { gzipSync } from "zlib";
+import { matchRoutes } from "react-router";
+import routes from "../app/routes";
+import {
+  ROUTE_CRITICAL_ENTRY_PREFIX,
+  toRouteBundleName,
+} from "../app/utils/critical-css-routes";
+import { rewriteHtml } from "../app/utils/html-rewriter";
+import {
+  defineCriticalCssConfig,
+  GENERATED_CRITICAL_DIR,
+  type CriticalCssConfig,
+} from "../app/utils/critical-css-config";
+import {
+  DEFERRED_ENTRY_PREFIX,
+  importedStylesheetFiles,
+  scanDirectory,
+  splitCSSByComponents,
+  toDeferredBundleName,
+} from "./critical-css-scanner";
+import {
+  attributeCompiledCss,
+  attributeRules,
+  groupRulesBySource,
+} from "./css-source-attribution";
+import {
+  collectRouteIds,
+  collectStaticRoutes,
+  toRouteObjects,
+} from "./route-config";
+import { compileStylesheets, ROOT_ROUTE_ID } from "./style-imports";
+
+/**
+ * Critical CSS Inspector Plugin (development only)
+ *
+ * In dev, critical CSS is not inlined and non-critical CSS is imported
+ * eagerly, so the production split is invisible without a build. This
+ * plugin reproduces it from the same generated entries and split logic:
+ *
+ * - GET /__critical-css
+ *   Report listing each bundle (global critical, route critical,
+ *   non-critical, media-deferred) with its size and the .scss files and
+ *   rules it contains
+ * - GET <any page>?critical-css=critical
+ *   The page as production first paints it: only the inlined critical CSS
+ *   (global + matched routes), scripts stripped so dev CSS is never injected
+ * - GET <any page>?critical-css=full
+ *   Same, plus the non-critical bundle (after it has loaded) and the
+ *   deferred bundles under their media queries
+ *
+ * Stylesheets imported from components are added to the bundle their
+ * marker selects, as in production ("root" holds those inlined everywhere).
+ *
+ * Sizes are measured on esbuild-minified output, close to production.
+ * Disabled with `features.inspector: false`.
+ */
+
+const INSPECTOR_PATH = "/__critical-css";
+const PREVIEW_PARAM = "critical-css";
+type PreviewMode = "critical" | "full";
+
+interface InspectedBundle {
+  name: string;
+  // Where production puts it
+  delivery:
+    | "inlined"
+    | "inlined for route"
+    | "async-loaded"
+    | `linked for media ${string}`;
+  css: string;
+  size: number;
+  gzipSize: number;
+  sources: Array<{ source: string; size: number; rules: string[] }>;
+}
+
+interface Inspection {
+  critical: InspectedBundle;
+  routes: Record<string, InspectedBundle>;
+  nonCritical: InspectedBundle | null;
+  // Keyed by media query
+  deferred: Record<string, InspectedBundle>;
+  // Rules moved out of the global critical CSS, per source file
+  leaked: Record<string, number>;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatKB(bytes: number): string {
+  return `${(bytes / 1024).toFixed(2)} KB`;
+}
+
+export function criticalCssInspector(
+  criticalCss: CriticalCssConfig = defineCriticalCssConfig()
+): Plugin {
+  const __dirname = path.dirname(fileURLToPath(import.meta.url));
+  const appRoot = path.resolve(__dirname, "..", criticalCss.appDir);
+  const internalCriticalDir = path.join(appRoot, GENERATED_CRITICAL_DIR);
+  const routeObjects = toRouteObjects(routes);
+
+  // Compile an entry through Vite's CSS pipeline and minify it
+  async function compile(server: ViteDevServer, file: string) {
+    const source = await fs.readFile(file, "utf-8");
+    const { code } = await preprocessCSS(source, file, server.config);
+    const minified = await transformWithEsbuild(code, file, {
+      loader: "css",
+      minify: true,
+    });
+    return minified.code;
+  }
+
+  async function inspect(server: ViteDevServer): Promise<Inspection> {
+    const scan = await scanDirectory(appRoot, criticalCss);
+    const routeFiles = Object.values(scan.routes).flat();
+
+    const attribution = attributeRules(appRoot, [
+      criticalCss.entries.critical.replace(/\.scss$/, ""),
+      ...[
+        ...new Set([
+          ...scan.nonCritical,
+          ...routeFiles,
+          ...Object.values(scan.deferred).flat(),
+        ]),
+      ].map((file) => file.replace(/\.scss$/, "")),
+    ]);
+
+    const importedCss = await compileStylesheets(
+      server.config,
+      appRoot,
+      importedStylesheetFiles(scan.imported)
+    );
+    for (const [file, css] of Object.entries(importedCss)) {
+      attributeCompiledCss(attribution, file, css);
+    }
+    const joinImported = (files: string[] = []) =>
+      files.map((file) => importedCss[file] ?? "").join("");
+
+    function describe(
+      name: string,
+      delivery: InspectedBundle["delivery"],
+      css: string
+    ): InspectedBundle {
+      const sources = [...groupRulesBySource(css, attribution)]
+        .map(([source, group]) => ({ source, ...group }))
+        .sort((a, b) => b.size - a.size);
+      return {
+        name,
+        delivery,
+        css,
+        size: Buffer.byteLength(css),
+        gzipSize: gzipSync(css).length,
+        sources,
+      };
+    }
+
+    const { critical, leaked } = splitCSSByComponents(
+      await compile(server, path.join(appRoot, criticalCss.entries.root)),
+      scan,
+      appRoot,
+      criticalCss.entries.critical
+    );
+
+    const routeBundles: Record<string, InspectedBundle> = {};
+    for (const routeId of [ROOT_ROUTE_ID, ...collectRouteIds(routes)]) {
+      const css =
+        (scan.routes[routeId]?.length
+          ? await compile(
+              server,
+              path.join(
+                internalCriticalDir,
+                `${ROUTE_CRITICAL_ENTRY_PREFIX}${toRouteBundleName(routeId)}.scss`
+              )
+            )
+          : "") + joinImported(scan.imported.critical[routeId]);
+      if (!css) continue;
+
+      routeBundles[routeId] = describe(routeId, "inlined for route", css);
+    }
+
+    const nonCriticalCss =
+      (await compile(
+        server,
+        path.join(appRoot, criticalCss.entries.nonCritical)
+      )) +
+      joinImported([
+        ...new Set([
+          ...scan.imported.nonCritical,
+          ...Object.entries(scan.imported.critical)
+            .filter(([routeId]) => routeId !== ROOT_ROUTE_ID)
+            .flatMap(([, files]) => files),
+        ]),
+      ]);
+
+    const deferredBundles: Record<string, InspectedBundle> = {};
+    for (const media of new Set([
+      ...Object.keys(scan.deferred),
+      ...Object.keys(scan.imported.deferred),
+    ])) {
+      const css =
+        (scan.deferred[media]
+          ? await compile(
+              server,
+              path.join(
+                internalCriticalDir,
+                `${DEFERRED_ENTRY_PREFIX}${toDeferredBundleName(media)}.scss`
+              )
+            )
+          : "") + joinImported(scan.imported.deferred[media]);
+      deferredBundles[media] = describe(
+        `deferred-${toDeferredBundleName(media)}`,
+        `linked for media ${media}`,
+        css
+      );
+    }
+
+    return {
+      critical: describe("global", "inlined", critical),
+      routes: routeBundles,
+      nonCritical: nonCriticalCss
+        ? describe("non-critical", "async-loaded", nonCriticalCss)
+        : null,
+      deferred: deferredBundles,
+      leaked,
+    };
+  }
+
+  function renderBundle(bundle: InspectedBundle): string {
+    const sources = bundle.sources
+      .map(
+        (source) => `
+        <details>
+          <summary><code>${escapeHtml(source.source)}</code> — ${formatKB(source.size)} (${source.rules.length} rule(s))</summary>
+          <ul>${source.rules.map((rule) => `<li><code>${escapeHtml(rule)}</code></li>`).join("")}</ul>
+        </details>`
+      )
+      .join("");
+
+    return `
+      <section>
+        <h2>${escapeHtml(bundle.name)} <small>${bundle.delivery} · ${formatKB(bundle.size)} (gzip ${formatKB(bundle.gzipSize)})</small></h2>
+        ${sources || "<p>Empty</p>"}
+      </section>`;
+  }
+
+  function renderReport(inspection: Inspection): string {
+    const leaked = Object.entries(inspection.leaked);
+    const previews = collectStaticRoutes(routes)
+      .map(
+        ({ path: pagePath }) =>
+          `<li><code>${escapeHtml(pagePath)}</code>: <a href="${escapeHtml(pagePath)}?${PREVIEW_PARAM}=critical">critical only</a> · <a href="${escapeHtml(pagePath)}?${PREVIEW_PARAM}=full">critical + non-critical</a></li>`
+      )
+      .join("");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Critical CSS Inspector</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem; max-width: 960px; }
+  h2 small { font-weight: normal; color: #666; font-size: 0.7em; }
+  details { margin: 0.25rem 0; }
+  ul { margin: 0.25rem 0 0.5rem; }
+</style>
+</head>
+<body>
+<h1>Critical CSS Inspector</h1>
+<p>Production split reproduced from the current <code>@critical</code>, <code>@defer</code> and <code>@print</code> markers (dev only).</p>
+<h2>Preview pages</h2>
+<ul>${previews}</ul>
+${renderBundle(inspection.critical)}
+${Object.values(inspection.routes).map(renderBundle).join("")}
+${inspection.nonCritical ? renderBundle(inspection.nonCritical) : ""}
+${Object.values(inspection.deferred).map(renderBundle).join("")}
+${
+  leaked.length > 0
+    ? `<section><h2>Moved out of the global critical CSS</h2><ul>${leaked
+        .map(
+          ([file, count]) =>
+            `<li><code>${escapeHtml(file)}</code>: ${count} rule(s)</li>`
+        )
+        .join("")}</ul></section>`
+    : ""
+}
+</body>
+</html>`;
+  }
+
+  async function renderPreview(
+    server: ViteDevServer,
+    req: IncomingMessage,
+    url: URL,
+    mode: PreviewMode
+  ): Promise<string> {
+    const inspection = await inspect(server);
+
+    // Render the page without the preview parameter
+    const pageUrl = new URL(url);
+    pageUrl.searchParams.delete(PREVIEW_PARAM);
+    const page = await fetch(pageUrl, {
+      headers: { cookie: req.headers.cookie ?? "" },
+    });
+    const html = await page.text();
+
+    const routeIds = [
+      ROOT_ROUTE_ID,
+      ...(matchRoutes(routeObjects, url.pathname) ?? []).map(
+        (match) => match.route.id ?? ""
+      ),
+    ];
+    const routeBundles = routeIds
+      .map((routeId) => inspection.routes[routeId])
+      .filter((bundle) => bundle !== undefined);
+
+    let styles = `<style id="critical-css">${inspection.critical.css}</style>`;
+    for (const bundle of routeBundles) {
+      styles += `<style id="critical-css-${toRouteBundleName(bundle.name)}">${bundle.css}</style>`;
+    }
+    if (mode === "full" && inspection.nonCritical) {
+      styles += `<style id="non-critical-css">${inspection.nonCritical.css}</style>`;
+    }
+    if (mode === "full") {
+      for (const [media, bundle] of Object.entries(inspection.deferred)) {
+        styles += `<style id="${escapeHtml(bundle.name)}-css" media="${escapeHtml(media)}">${bundle.css}</style>`;
+      }
+    }
+
+    const size = [inspection.critical, ...routeBundles].reduce(
+      (total, bundle) => total + bundle.size,
+      0
+    );
+    const link = (label: string, href: string) =>
+      `<a style="color:#9cf;margin-left:8px" href="${escapeHtml(href)}">${label}</a>`;
+    const panel =
+      `<div style="position:fixed;right:8px;bottom:8px;z-index:2147483647;padding:6px 10px;background:#222;color:#fff;font:12px/1.4 system-ui,sans-serif;border-radius:4px">` +
+      `Critical CSS preview (${mode}): ${formatKB(size)} inlined${routeBundles.length ? ` incl. ${routeBundles.map((b) => escapeHtml(b.name)).join(", ")}` : ""}` +
+      link("critical only", `${url.pathname}?${PREVIEW_PARAM}=critical`) +
+      link("+ non-critical", `${url.pathname}?${PREVIEW_PARAM}=full`) +
+      link("inspector", INSPECTOR_PATH) +
+      link("exit", url.pathname) +
+      `</div>`;
+
+    // Drop dev CSS and scripts: the client would inject all styles again
+    const stripped = html
+      .replace(
+        /<style data-react-router-critical-css[^>]*>[\s\S]*?<\/style>/g,
+        ""
+      )
+      .replace(/<script\b[^>]*>[\s\S]*?<\/script>/g, "")
+      .replace(/<link rel="modulepreload"[^>]*>/g, "");
+
+    return rewriteHtml(stripped, { head: styles, bodyEnd: panel });
+  }
+
+  function send(
+    res: ServerResponse,
+    status: number,
+    body: string,
+    contentType = "text/html"
+  ) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", `${contentType}; charset=utf-8`);
+    res.setHeader("Cache-Control", "no-store");
+    res.end(body);
+  }
+
+  return {
+    name: "critical-css-inspector",
+
+    apply: (_, { command }) =>
+      command === "serve" && criticalCss.features.inspector,
+
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        if (req.method !== "GET" || !req.url) return next();
+
+        const protocol = server.config.server.https ? "https" : "http";
+        const url = new URL(req.url, `${protocol}://${req.headers.host}`);
+        const mode = url.searchParams.get(PREVIEW_PARAM);
+
+        if (url.pathname !== INSPECTOR_PATH && !mode) return next();
+
+        try {
+          if (url.pathname === INSPECTOR_PATH) {
+            send(res, 200, renderReport(await inspect(server)));
+            return;
+          }
+
+          if (mode !== "critical" && mode !== "full") {
+            send(
+              res,
+              400,
+              `Unknown ${PREVIEW_PARAM} mode "${mode}" (use "critical" or "full")`,
+              "text/plain"
+            );
+            return;
+          }
+
+          send(res, 200, await renderPreview(server, req, url, mode));
+        } catch (error) {
+          console.error("[Critical CSS Inspector] ❌ Failed:", error);
+          send(
+            res,
+            500,
+            `Critical CSS inspection failed:\n\n${error instanceof Error ? error.stack : String(error)}`,
+            "text/plain"
+          );
+        }
+      });
+
+      console.log(
+        `[Critical CSS Inspector] 🔎 Report at ${INSPECTOR_PATH}, preview any page with ?${PREVIEW_PARAM}=critical|full`
+      );
+    },
+  };
+}
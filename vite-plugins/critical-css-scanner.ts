@@ -1,8 +1,36 @@
-import type { Plugin, ResolvedConfig } from "vite";
+import { createFilter, type Plugin, type ResolvedConfig } from "vite";
 import { promises as fs } from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 import { watch } from "fs";
+import postcss, { type Container } from "postcss";
+import routes from "../app/routes";
+import {
+  ROUTE_CRITICAL_ENTRY_PREFIX,
+  toRouteBundleName,
+} from "../app/utils/critical-css-routes";
+import {
+  defineCriticalCssConfig,
+  GENERATED_CRITICAL_DIR,
+  type CriticalCssConfig,
+} from "../app/utils/critical-css-config";
+import {
+  atRuleContext,
+  attributeCompiledCss,
+  attributeRules,
+  isContainerAtRule,
+  nodeKeys,
+} from "./css-source-attribution";
+import { GENERATED_DESIGN_TOKENS_DIR } from "./design-tokens";
+import { collectRouteIds } from "./route-config";
+import { writeUtilityClassTypes } from "./utility-classes";
+import {
+  collectStyleImports,
+  compileStylesheets,
+  isCssModule,
+  ROOT_ROUTE_ID,
+  type StyleImportGraph,
+} from "./style-imports";
 
 /**
  * Critical CSS Scanner Plugin - Phase 4 Auto-Detection Approach
@@ -10,10 +38,25 @@ import { watch } from "fs";
  * Automatically detects and imports:
  * 1. ALL design tokens from app/styles/abstracts/
  * 2. Components marked with @critical marker in app/components/
+ * 3. Components marked with @critical routes=<id,...> for specific routes
+ * 4. Components marked with @defer media="<query>" or @print, loaded with a
+ *    matching media attribute instead of competing with first paint
+ * 5. Stylesheets imported from components (incl. CSS Modules), classified
+ *    with the same markers; a bare @critical applies to the routes whose
+ *    module graph imports them (see style-imports.ts). They are bundled by
+ *    Vite / css-compiled-separately, never by the generated entries
  *
  * Generated files (written to actual .scss files, not virtual):
  * - app/.internal/critical-css/_generated-critical.scss
  * - app/.internal/critical-css/_generated-non-critical.scss
+ * - app/.internal/critical-css/_generated-critical-route-<id>.scss
+ *   (one per route in app/routes.ts)
+ * - app/.internal/critical-css/_generated-deferred-<media>.scss
+ *   (one per distinct media query, compiled separately for production)
+ * - app/.internal/critical-css/_generated-deferred.scss
+ *   (all deferred files wrapped in their @media, for development)
+ * - app/.internal/utilities/utility-classes.ts
+ *   (UtilityClass union accepted by cx(), see utility-classes.ts)
  *
  * No templates needed - pure auto-generation from filesystem scanning.
  * Files are auto-generated at build time and never committed to git.
@@ -23,21 +66,99 @@ import { watch } from "fs";
  * - Development mode: Scans on startup + watches for file changes (HMR support)
  */
 
-interface GeneratedFiles {
+export interface GeneratedFiles {
   abstracts: string[];
   critical: string[];
   nonCritical: string[];
+  // Route id -> components critical only for that route
+  routes: Record<string, string[]>;
+  // Media query -> components loaded with that media attribute
+  deferred: Record<string, string[]>;
+  // Stylesheets imported from .tsx modules
+  imported: ImportedStylesheets;
 }
 
-// Regex patterns for marker detection
-const CRITICAL_FILE_MARKER = /^[\s/]*\/\*\s*@critical\s*\*\//m;
+export interface ImportedStylesheets {
+  // Route id ("root" = every page) -> stylesheets inlined for that route
+  critical: Record<string, string[]>;
+  nonCritical: string[];
+  // Media query -> stylesheets loaded with that media attribute
+  deferred: Record<string, string[]>;
+  // CSS Modules no route module imports (not bundled at all)
+  unreferenced: string[];
+}
+
+/**
+ * Every stylesheet of an import classification
+ */
+export function importedStylesheetFiles(
+  imported: ImportedStylesheets
+): string[] {
+  return [
+    ...new Set([
+      ...Object.values(imported.critical).flat(),
+      ...imported.nonCritical,
+      ...Object.values(imported.deferred).flat(),
+    ]),
+  ].sort();
+}
+
+// Regex patterns for marker detection (names from the config `markers`)
+export interface MarkerPatterns {
+  // Captures the optional route list: /* @critical routes=home,about */
+  critical: RegExp;
+  // Captures the media query: /* @defer media="(min-width: 1024px)" */
+  defer: RegExp;
+  // Shorthand for /* @defer media="print" */
+  print: RegExp;
+}
+
+export function createMarkerPatterns(
+  markers: CriticalCssConfig["markers"]
+): MarkerPatterns {
+  const name = (marker: string) =>
+    marker.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return {
+    critical: new RegExp(
+      `^[\\s/]*\\/\\*\\s*@${name(markers.critical)}(?:\\s+routes=([\\w/.,-]+))?\\s*\\*\\/`,
+      "m"
+    ),
+    defer: new RegExp(
+      `^[\\s/]*\\/\\*\\s*@${name(markers.defer)}\\s+media="([^"]+)"\\s*\\*\\/`,
+      "m"
+    ),
+    print: new RegExp(
+      `^[\\s/]*\\/\\*\\s*@${name(markers.print)}\\s*\\*\\/`,
+      "m"
+    ),
+  };
+}
+
+export const DEFERRED_ENTRY_PREFIX = "_generated-deferred-";
+
+/**
+ * File-safe bundle name for a media query, e.g. "min-width-1024px"
+ */
+export function toDeferredBundleName(media: string): string {
+  return media
+    .replace(/[^a-zA-Z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+}
 
-export function criticalCssScanner(): Plugin {
+export function criticalCssScanner(
+  criticalCss: CriticalCssConfig = defineCriticalCssConfig()
+): Plugin {
   let generatedFiles: GeneratedFiles = {
     abstracts: [],
     critical: [],
     nonCritical: [],
+    routes: {},
+    deferred: {},
+    imported: { critical: {}, nonCritical: [], deferred: {}, unreferenced: [] },
   };
+  const routeIds = collectRouteIds(routes);
+  let lastScan = "";
   let appRoot = "";
   let internalCriticalDir = "";
   let config: ResolvedConfig | null = null;
@@ -110,17 +231,22 @@ export function criticalCssScanner(): Plugin {
   }
 
   // Helper to generate non-critical component imports
+  // Route-scoped critical components are included too, so they are still
+  // available after a client-side navigation to a route that did not inline them
   function generateNonCriticalComponentImports(files: GeneratedFiles): string {
     const lines: string[] = [];
+    const components = [
+      ...new Set([...files.nonCritical, ...Object.values(files.routes).flat()]),
+    ].sort();
 
-    if (files.nonCritical.length > 0) {
+    if (components.length > 0) {
       lines.push(
         "// ===================================",
         "// NON-CRITICAL COMPONENTS",
         "// ==================================="
       );
 
-      for (const component of files.nonCritical) {
+      for (const component of components) {
         const componentPath = component.replace(/\.scss$/, "");
         lines.push(`@use "../../${componentPath}";`);
       }
@@ -131,16 +257,122 @@ export function criticalCssScanner(): Plugin {
     return lines.join("\n");
   }
 
+  // Helper to generate a route-scoped critical file (route components only;
+  // abstracts and global critical components already ship in root-*.css)
+  function generateRouteComponentImports(
+    routeId: string,
+    components: string[]
+  ): string {
+    const lines = [
+      "// ===================================",
+      `// CRITICAL COMPONENTS FOR ROUTE "${routeId}"`,
+      "// ===================================",
+    ];
+
+    if (components.length === 0) {
+      lines.push("// No route-specific critical components detected");
+    }
+
+    for (const component of components) {
+      const componentPath = component.replace(/\.scss$/, "");
+      lines.push(`@use "../../${componentPath}";`);
+    }
+
+    return lines.join("\n");
+  }
+
+  // Helper to generate a deferred bundle file (components for one media query)
+  function generateDeferredComponentImports(
+    media: string,
+    components: string[]
+  ): string {
+    const lines = [
+      "// ===================================",
+      `// DEFERRED COMPONENTS FOR MEDIA "${media}"`,
+      "// ===================================",
+    ];
+
+    for (const component of components) {
+      const componentPath = component.replace(/\.scss$/, "");
+      lines.push(`@use "../../${componentPath}";`);
+    }
+
+    return lines.join("\n");
+  }
+
+  // Helper to generate the development aggregate: every deferred component
+  // wrapped in its media query, so dev matches what production loads
+  function generateDeferredDevImports(files: GeneratedFiles): string {
+    const groups = Object.entries(files.deferred);
+    if (groups.length === 0) {
+      return "// No deferred components detected";
+    }
+
+    const lines = ['@use "sass:meta";'];
+    for (const [media, components] of groups) {
+      lines.push("", `@media ${media} {`);
+      for (const component of components) {
+        const componentPath = component.replace(/\.scss$/, "");
+        lines.push(`  @include meta.load-css("../../${componentPath}");`);
+      }
+      lines.push("}");
+    }
+
+    return lines.join("\n");
+  }
+
+  // Keep the UtilityClass union in sync with app/styles/create (on a Sass
+  // error the previous union stays in place)
+  async function regenerateUtilityTypes() {
+    try {
+      const count = await writeUtilityClassTypes(
+        appRoot,
+        criticalCss.entries.utilities
+      );
+      if (count !== null) {
+        console.log(
+          `[Critical CSS Scanner] 🏷️  Generated ${count} utility class type(s)`
+        );
+      }
+    } catch (error) {
+      console.warn(
+        "[Critical CSS Scanner] ⚠️  Could not generate utility class types:",
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
   // Helper to regenerate files
-  async function regenerateImports() {
+  // (with `onlyIfChanged`, skipped when the classification is unchanged)
+  async function regenerateImports(onlyIfChanged = false) {
+    // Scan components for markers
+    const componentsData = await scanDirectory(appRoot, criticalCss);
+    const scanKey = JSON.stringify(componentsData);
+    if (onlyIfChanged && scanKey === lastScan) return;
+    lastScan = scanKey;
+
     // Scan abstracts
     const abstractsDir = path.join(appRoot, "styles", "abstracts");
     generatedFiles.abstracts = await scanAbstracts(abstractsDir);
 
-    // Scan components for markers
-    const componentsData = await scanDirectory(appRoot);
     generatedFiles.critical = componentsData.critical;
     generatedFiles.nonCritical = componentsData.nonCritical;
+    generatedFiles.routes = Object.fromEntries(
+      routeIds.map((id) => [id, componentsData.routes[id] ?? []])
+    );
+    generatedFiles.deferred = componentsData.deferred;
+    generatedFiles.imported = componentsData.imported;
+
+    for (const id of [
+      ...Object.keys(componentsData.routes),
+      ...Object.keys(componentsData.imported.critical),
+    ]) {
+      if (id !== ROOT_ROUTE_ID && !routeIds.includes(id)) {
+        console.warn(
+          `[Critical CSS Scanner] ⚠️  Unknown route id "${id}" in @critical marker (known: ${routeIds.join(", ")})`
+        );
+      }
+    }
 
     // Generate critical CSS file (abstracts + critical components)
     const criticalContent =
@@ -172,6 +404,65 @@ export function criticalCssScanner(): Plugin {
       nonCriticalContent
     );
 
+    // Remove route / deferred files left over from routes and media
+    // queries that no longer exist
+    const expectedFiles = new Set([
+      ...routeIds.map(
+        (id) => `${ROUTE_CRITICAL_ENTRY_PREFIX}${toRouteBundleName(id)}.scss`
+      ),
+      ...Object.keys(generatedFiles.deferred).map(
+        (media) => `${DEFERRED_ENTRY_PREFIX}${toDeferredBundleName(media)}.scss`
+      ),
+    ]);
+    for (const file of await fs.readdir(internalCriticalDir)) {
+      if (
+        (file.startsWith(ROUTE_CRITICAL_ENTRY_PREFIX) ||
+          file.startsWith(DEFERRED_ENTRY_PREFIX)) &&
+        !expectedFiles.has(file)
+      ) {
+        await fs.rm(path.join(internalCriticalDir, file));
+      }
+    }
+
+    for (const [routeId, components] of Object.entries(generatedFiles.routes)) {
+      await fs.writeFile(
+        path.join(
+          internalCriticalDir,
+          `${ROUTE_CRITICAL_ENTRY_PREFIX}${toRouteBundleName(routeId)}.scss`
+        ),
+        "// AUTO-GENERATED - Do not edit manually\n" +
+          `// Generated at: ${new Date().toISOString()}\n` +
+          "// This file is regenerated on every yarn dev / yarn build\n\n" +
+          generateRouteComponentImports(routeId, components) +
+          "\n"
+      );
+    }
+
+    for (const [media, components] of Object.entries(generatedFiles.deferred)) {
+      await fs.writeFile(
+        path.join(
+          internalCriticalDir,
+          `${DEFERRED_ENTRY_PREFIX}${toDeferredBundleName(media)}.scss`
+        ),
+        "// AUTO-GENERATED - Do not edit manually\n" +
+          `// Generated at: ${new Date().toISOString()}\n` +
+          "// This file is regenerated on every yarn dev / yarn build\n\n" +
+          generateDeferredComponentImports(media, components) +
+          "\n"
+      );
+    }
+
+    await fs.writeFile(
+      path.join(internalCriticalDir, "_generated-deferred.scss"),
+      "// AUTO-GENERATED - Do not edit manually\n" +
+        `// Generated at: ${new Date().toISOString()}\n` +
+        "// This file is regenerated on every yarn dev / yarn build\n\n" +
+        generateDeferredDevImports(generatedFiles) +
+        "\n"
+    );
+
+    await regenerateUtilityTypes();
+
     // Log results
     console.log(`[Critical CSS Scanner] ✅ Auto-generated critical CSS`);
     console.log(
@@ -194,6 +485,30 @@ export function criticalCssScanner(): Plugin {
       console.log("");
     }
 
+    const routeEntries = Object.entries(generatedFiles.routes).filter(
+      ([, components]) => components.length > 0
+    );
+    if (routeEntries.length > 0) {
+      console.log("[Critical CSS Scanner] 🧭 Route critical components:");
+      routeEntries.forEach(([routeId, components]) => {
+        components.forEach((file) => {
+          console.log(`  ✓ ${file} (${routeId})`);
+        });
+      });
+      console.log("");
+    }
+
+    const deferredEntries = Object.entries(generatedFiles.deferred);
+    if (deferredEntries.length > 0) {
+      console.log("[Critical CSS Scanner] 🖨️  Deferred components:");
+      deferredEntries.forEach(([media, components]) => {
+        components.forEach((file) => {
+          console.log(`  ✓ ${file} (media ${media})`);
+        });
+      });
+      console.log("");
+    }
+
     if (generatedFiles.nonCritical.length > 0) {
       console.log("[Critical CSS Scanner] 📦 Non-critical components:");
       generatedFiles.nonCritical.forEach((file) => {
@@ -202,6 +517,30 @@ export function criticalCssScanner(): Plugin {
       console.log("");
     }
 
+    const { imported } = generatedFiles;
+    if (importedStylesheetFiles(imported).length > 0) {
+      console.log("[Critical CSS Scanner] 🧩 Imported stylesheets:");
+      Object.entries(imported.critical).forEach(([routeId, files]) => {
+        files.forEach((file) => {
+          console.log(`  ✓ ${file} (critical for ${routeId})`);
+        });
+      });
+      Object.entries(imported.deferred).forEach(([media, files]) => {
+        files.forEach((file) => {
+          console.log(`  ✓ ${file} (media ${media})`);
+        });
+      });
+      imported.nonCritical.forEach((file) => {
+        console.log(`  ✓ ${file} (non-critical)`);
+      });
+      console.log("");
+    }
+    imported.unreferenced.forEach((file) => {
+      console.warn(
+        `[Critical CSS Scanner] ⚠️  CSS Module ${file} is not imported by any route module, skipping`
+      );
+    });
+
     // Trigger HMR update to reload SCSS modules
     if (server && server.ws) {
       server.ws.send({
@@ -216,11 +555,11 @@ export function criticalCssScanner(): Plugin {
   return {
     name: "critical-css-scanner",
 
-    async config() {
+    async config(userConfig) {
       // Determine paths
       const __dirname = path.dirname(fileURLToPath(import.meta.url));
-      appRoot = path.resolve(__dirname, "..", "app");
-      internalCriticalDir = path.resolve(appRoot, ".internal", "critical-css");
+      appRoot = path.resolve(__dirname, "..", criticalCss.appDir);
+      internalCriticalDir = path.resolve(appRoot, GENERATED_CRITICAL_DIR);
 
       console.log(
         "[Critical CSS Scanner] 🔍 Scanning for abstracts and markers in:",
@@ -229,6 +568,20 @@ export function criticalCssScanner(): Plugin {
 
       // Initial generation
       await regenerateImports();
+
+      // Serve the assets from the configured public path unless Vite's own
+      // options say otherwise (the runtime links use the config)
+      if (userConfig.base && userConfig.base !== criticalCss.publicPath) {
+        console.warn(
+          `[Critical CSS Scanner] ⚠️  Vite base "${userConfig.base}" differs from publicPath "${criticalCss.publicPath}"`
+        );
+      }
+      return {
+        base: userConfig.base ?? criticalCss.publicPath,
+        build: {
+          assetsDir: userConfig.build?.assetsDir ?? criticalCss.assetsDir,
+        },
+      };
     },
 
     // Set up file watcher in dev mode and capture server
@@ -238,20 +591,24 @@ export function criticalCssScanner(): Plugin {
       // Only set up watcher in dev mode
       if (config.command === "serve") {
         // Watch app directory for new SCSS files
-        const appPath = path.resolve(
-          path.dirname(fileURLToPath(import.meta.url)),
-          "..",
-          "app"
-        );
+        const appPath = appRoot;
 
         // Debounce regeneration to avoid multiple rapid calls
-        const scheduleRegenerate = () => {
+        // Script changes only matter when they add or remove a stylesheet
+        // import, so they regenerate only if the classification changed
+        let scriptsOnly = true;
+        const scheduleRegenerate = (isScript: boolean) => {
+          scriptsOnly &&= isScript;
           if (regenerateTimer) clearTimeout(regenerateTimer);
           regenerateTimer = setTimeout(async () => {
-            console.log(
-              "[Critical CSS Scanner] 📝 Detected file change, regenerating..."
-            );
-            await regenerateImports();
+            const onlyIfChanged = scriptsOnly;
+            scriptsOnly = true;
+            if (!onlyIfChanged) {
+              console.log(
+                "[Critical CSS Scanner] 📝 Detected file change, regenerating..."
+              );
+            }
+            await regenerateImports(onlyIfChanged);
           }, 300); // 300ms debounce to ensure file is fully written
         };
 
@@ -261,18 +618,21 @@ export function criticalCssScanner(): Plugin {
           (eventType, filename) => {
             if (
               filename &&
-              filename.endsWith(".scss") &&
+              /\.(scss|tsx?)$/.test(filename) &&
               !filename.includes("node_modules") &&
               !filename.includes(".git") &&
-              !filename.includes(".internal") // Exclude generated files to prevent infinite loop
+              // Exclude generated files to prevent infinite loop (the
+              // design token partials are inputs of the utilities)
+              (!filename.includes(".internal") ||
+                filename.includes(GENERATED_DESIGN_TOKENS_DIR))
             ) {
-              scheduleRegenerate();
+              scheduleRegenerate(!filename.endsWith(".scss"));
             }
           }
         );
 
         console.log(
-          "[Critical CSS Scanner] 👀 Watching app directory for SCSS changes"
+          "[Critical CSS Scanner] 👀 Watching app directory for SCSS and import changes"
         );
       }
     },
@@ -286,10 +646,10 @@ export function criticalCssScanner(): Plugin {
       return;
     },
 
-    // Hook into the write bundle to split CSS files
-    async writeBundle(options, bundle) {
-      // Only process during build
-      if (config?.command !== "build") {
+    // Split root-*.css before it is written, so the change reaches disk
+    async generateBundle(options, bundle) {
+      // Only process the client build (root-*.css lives in build/client)
+      if (config?.command !== "build" || this.environment.name !== "client") {
         return;
       }
 
@@ -299,7 +659,9 @@ export function criticalCssScanner(): Plugin {
         for (const [, file] of Object.entries(bundle)) {
           if (
             file.type === "asset" &&
-            file.fileName.startsWith("root-") &&
+            path
+              .basename(file.fileName)
+              .startsWith(criticalCss.assetPrefixes.root) &&
             file.fileName.endsWith(".css")
           ) {
             mainCssFile = file;
@@ -315,38 +677,38 @@ export function criticalCssScanner(): Plugin {
         }
 
         const fullCss = mainCssFile.source;
-        const { critical, nonCritical } = splitCSSByComponents(
+        const importedCss = await compileStylesheets(
+          config,
+          appRoot,
+          importedStylesheetFiles(generatedFiles.imported)
+        );
+        const { critical, nonCritical, leaked } = splitCSSByComponents(
           fullCss,
-          generatedFiles
+          generatedFiles,
+          appRoot,
+          criticalCss.entries.critical,
+          importedCss
         );
 
         // Update the main CSS file to contain only critical CSS
+        // (moved rules already ship in the separately compiled non-critical bundle)
         mainCssFile.source = critical;
 
-        // Create a separate file for non-critical CSS
-        const nonCriticalFileName = mainCssFile.fileName.replace(
-          "root-",
-          "non-critical-"
-        );
-        bundle[nonCriticalFileName] = {
-          type: "asset",
-          fileName: nonCriticalFileName,
-          source: nonCritical,
-          needsCodeReference: false,
-        } as any;
-
         const criticalSize = (critical.length / 1024).toFixed(2);
         const nonCriticalSize = (nonCritical.length / 1024).toFixed(2);
 
         console.log("[Critical CSS Scanner] 📊 CSS split completed:");
         console.log(
-          `  Critical: ${criticalSize} KB | Non-critical: ${nonCriticalSize} KB`
+          `  Critical: ${criticalSize} KB | Moved to non-critical: ${nonCriticalSize} KB`
         );
+        for (const [file, count] of Object.entries(leaked)) {
+          console.log(`  ↪ ${file}: ${count} rule(s)`);
+        }
       } catch (error) {
-        console.warn(
-          "[Critical CSS Scanner] ⚠️ Failed to split CSS:",
-          error instanceof Error ? error.message : String(error)
-        );
+        // Unsplit, root-*.css would inline every non-critical rule: fail
+        // the build instead (Sass errors carry the file, line and frame)
+        console.error("[Critical CSS Scanner] ❌ Failed to split CSS");
+        this.error(error instanceof Error ? error : String(error));
       }
     },
 
@@ -361,62 +723,136 @@ export function criticalCssScanner(): Plugin {
 }
 
 /**
- * Split CSS into critical and non-critical based on components
- * This is a simple approach that extracts CSS rules by component class names
+ * Split CSS into critical and non-critical based on source attribution
+ *
+ * Every rule of the compiled root CSS is traced back to the .scss file that
+ * produced it (see css-source-attribution.ts). Rules coming only from files
+ * classified as non-critical (unmarked, route-scoped or deferred) are removed from the
+ * critical output, including rules nested in @media/@supports and @keyframes.
+ * Unattributed rules (normalize, utilities, abstracts) stay critical.
+ *
+ * Stylesheets imported from the root module graph end up in root-*.css too;
+ * `importedCss` (file -> compiled CSS) moves their rules out as well, since
+ * css-compiled-separately delivers them in the bundle their marker selects.
  */
-function splitCSSByComponents(
+export function splitCSSByComponents(
   fullCss: string,
-  generatedFiles: GeneratedFiles
-): { critical: string; nonCritical: string } {
-  // For now, we'll use a simple approach:
-  // Since we have two separate Sass entry points (_index.scss for critical,
-  // _non-critical-entry.scss for non-critical), we can split the CSS
-  // by looking for component-specific selectors.
-  //
-  // However, since Sass compiles everything together initially,
-  // we need a different strategy. The best approach is to track
-  // which component files contributed to which parts of the CSS.
-  //
-  // For this MVP, we'll keep everything in the main CSS for now
-  // and just create an empty non-critical CSS file as a placeholder.
-  // The real split will happen when we can separate the Sass compilation.
-
-  const nonCriticalComponents = generatedFiles.nonCritical;
-
-  // Simple heuristic: extract rules that mention non-critical components
-  let nonCritical = "";
-  let critical = fullCss;
-
-  // Extract footer-related styles (basic pattern matching)
-  if (nonCriticalComponents.some((f) => f.includes("footer"))) {
-    const footerRegex = /\.footer\s*\{[^}]*\}|\.footer[^\s]*\s*\{[^}]*\}/g;
-    const matches = critical.match(footerRegex) || [];
-    if (matches.length > 0) {
-      nonCritical += matches.join("\n");
-      critical = critical.replace(footerRegex, "");
-    }
+  generatedFiles: Pick<GeneratedFiles, "nonCritical" | "routes" | "deferred">,
+  appRoot: string,
+  criticalEntry: string,
+  importedCss: Record<string, string> = {}
+): { critical: string; nonCritical: string; leaked: Record<string, number> } {
+  const nonCriticalFiles = new Set([
+    ...generatedFiles.nonCritical,
+    ...Object.values(generatedFiles.routes).flat(),
+    ...Object.values(generatedFiles.deferred).flat(),
+    ...Object.keys(importedCss),
+  ]);
+  const leaked: Record<string, number> = {};
+
+  if (nonCriticalFiles.size === 0) {
+    return { critical: fullCss, nonCritical: "", leaked };
   }
 
-  // Remove excess whitespace
-  critical = critical.replace(/\n\s*\n/g, "\n").trim();
-  nonCritical = nonCritical.replace(/\n\s*\n/g, "\n").trim();
+  // Compile the critical entry alongside the non-critical files so selectors
+  // shared with utilities are never attributed to a single component
+  const attribution = attributeRules(appRoot, [
+    criticalEntry.replace(/\.scss$/, ""),
+    ...[...nonCriticalFiles]
+      .filter((file) => !(file in importedCss))
+      .map((file) => file.replace(/\.scss$/, "")),
+  ]);
+  for (const [file, css] of Object.entries(importedCss)) {
+    attributeCompiledCss(attribution, file, css);
+  }
 
-  // If no non-critical CSS was extracted, add a comment
-  if (!nonCritical) {
-    nonCritical = "/* Non-critical CSS (async-loaded) - currently empty */\n";
+  const isNonCritical = (key: string) => {
+    const files = attribution.get(key);
+    return (
+      files !== undefined && [...files].every((f) => nonCriticalFiles.has(f))
+    );
+  };
+
+  const recordLeak = (key: string) => {
+    for (const file of attribution.get(key) ?? []) {
+      leaked[file] = (leaked[file] ?? 0) + 1;
+    }
+  };
+
+  const root = postcss.parse(fullCss);
+  const nonCriticalRoot = postcss.root();
+
+  function split(container: Container, context: string, target: Container) {
+    container.each((node) => {
+      if (isContainerAtRule(node)) {
+        const targetAtRule = node.clone();
+        targetAtRule.removeAll();
+        split(node, atRuleContext(context, node), targetAtRule);
+
+        if (targetAtRule.nodes?.length) target.append(targetAtRule);
+        if (!node.nodes?.length) node.remove();
+        return;
+      }
+
+      const keys = nodeKeys(node, context);
+      const moved = keys.filter(isNonCritical);
+      if (moved.length === 0) return;
+      moved.forEach(recordLeak);
+
+      // Minifiers merge identical rules: split mixed selector lists
+      if (node.type === "rule" && moved.length < keys.length) {
+        const selectors = node.selectors;
+        target.append(
+          node.clone({
+            selectors: selectors.filter((_, i) => isNonCritical(keys[i])),
+          })
+        );
+        node.selectors = selectors.filter((_, i) => !isNonCritical(keys[i]));
+        return;
+      }
+
+      target.append(node.clone());
+      node.remove();
+    });
   }
 
-  return { critical, nonCritical };
+  split(root, "", nonCriticalRoot);
+
+  return {
+    critical: root.toString(),
+    nonCritical: nonCriticalRoot.toString(),
+    leaked,
+  };
 }
 
 /**
- * Recursively scan directory for .scss files and detect markers
+ * Recursively scan directory for the stylesheets matching the config's
+ * include / exclude globs and detect markers
  */
-async function scanDirectory(
-  dir: string
-): Promise<{ critical: string[]; nonCritical: string[] }> {
-  const result = { critical: [], nonCritical: [] };
+export async function scanDirectory(
+  dir: string,
+  criticalCss: CriticalCssConfig = defineCriticalCssConfig()
+): Promise<Omit<GeneratedFiles, "abstracts">> {
+  const result: Omit<GeneratedFiles, "abstracts"> = {
+    critical: [],
+    nonCritical: [],
+    routes: {},
+    deferred: {},
+    imported: { critical: {}, nonCritical: [], deferred: {}, unreferenced: [] },
+  };
   const appRootPath = dir; // Capture appRoot in closure
+  const markers = createMarkerPatterns(criticalCss.markers);
+  // Globs are relative to the app directory
+  const isComponentStylesheet = createFilter(
+    criticalCss.include,
+    criticalCss.exclude,
+    { resolve: dir }
+  );
+  // Stylesheets imported from .tsx modules are classified separately
+  const styleImports: StyleImportGraph = criticalCss.features
+    .importedStylesheets
+    ? await collectStyleImports(dir, routes, isComponentStylesheet)
+    : new Map();
 
   async function walk(dirPath: string) {
     try {
@@ -425,27 +861,43 @@ async function scanDirectory(
       for (const entry of entries) {
         const fullPath = path.join(dirPath, entry.name);
 
-        // Skip styles and .internal directories (contain abstracts, not components)
-        if (entry.name === "styles" || entry.name === ".internal") {
-          continue;
-        }
-
         if (entry.isDirectory()) {
-          await walk(fullPath);
-        } else if (entry.isFile() && entry.name.endsWith(".scss")) {
-          // Skip app.scss itself (it's the root stylesheet)
-          if (entry.name === "app.scss") {
-            continue;
+          if (entry.name !== "node_modules") {
+            await walk(fullPath);
           }
-
+        } else if (entry.isFile() && isComponentStylesheet(fullPath)) {
           try {
-            const content = await fs.readFile(fullPath, "utf-8");
             // Compute relative path from app/ directory
             const relativePath = path.relative(appRootPath, fullPath);
+            if (styleImports.has(relativePath)) {
+              continue;
+            }
+            if (isCssModule(relativePath)) {
+              // Only usable through an import
+              if (criticalCss.features.importedStylesheets) {
+                result.imported.unreferenced.push(relativePath);
+              }
+              continue;
+            }
 
-            if (CRITICAL_FILE_MARKER.test(content)) {
+            const content = await fs.readFile(fullPath, "utf-8");
+            const marker = content.match(markers.critical);
+            const deferMedia = content.match(markers.print)
+              ? "print"
+              : content.match(markers.defer)?.[1];
+
+            if (marker?.[1]) {
+              // Critical only for the listed routes
+              for (const routeId of marker[1].split(",").filter(Boolean)) {
+                (result.routes[routeId] ??= []).push(relativePath);
+              }
+            } else if (marker) {
               // Explicitly marked as critical
               result.critical.push(relativePath);
+            } else if (deferMedia) {
+              // Loaded with a media attribute (large screens, print, ...)
+              const media = deferMedia.trim().replace(/\s+/g, " ");
+              (result.deferred[media] ??= []).push(relativePath);
             } else {
               // Default: treat all unmarked files as non-critical
               // This includes both explicitly marked @non-critical and unmarked files
@@ -468,5 +920,43 @@ async function scanDirectory(
   }
 
   await walk(dir);
+
+  // Imported stylesheets: same markers, but a bare @critical is scoped to
+  // the routes importing the file (every page when the root imports it)
+  const { imported } = result;
+  for (const [relativePath, importers] of [...styleImports].sort()) {
+    try {
+      const content = await fs.readFile(
+        path.join(appRootPath, relativePath),
+        "utf-8"
+      );
+      const marker = content.match(markers.critical);
+      const deferMedia = content.match(markers.print)
+        ? "print"
+        : content.match(markers.defer)?.[1];
+
+      if (marker) {
+        const routeIds = marker[1]
+          ? marker[1].split(",").filter(Boolean)
+          : importers.has(ROOT_ROUTE_ID)
+            ? [ROOT_ROUTE_ID]
+            : [...importers].sort();
+        for (const routeId of routeIds) {
+          (imported.critical[routeId] ??= []).push(relativePath);
+        }
+      } else if (deferMedia) {
+        const media = deferMedia.trim().replace(/\s+/g, " ");
+        (imported.deferred[media] ??= []).push(relativePath);
+      } else {
+        imported.nonCritical.push(relativePath);
+      }
+    } catch (err) {
+      console.warn(
+        `[Critical CSS Scanner] ⚠️  Failed to read ${relativePath}:`,
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+  }
+
   return result;
 }
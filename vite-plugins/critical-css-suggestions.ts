@@ -0,0 +1,356 @@
+import type { Plugin } from "vite";
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import * as sass from "sass";
+import postcss, { type Container } from "postcss";
+import {
+  createRequestHandler,
+  matchRoutes,
+  type ServerBuild,
+} from "react-router";
+import routes from "../app/routes";
+import {
+  defineCriticalCssConfig,
+  type CriticalCssConfig,
+} from "../app/utils/critical-css-config";
+import { createMarkerPatterns, scanDirectory } from "./critical-css-scanner";
+import { isContainerAtRule } from "./css-source-attribution";
+import { collectStaticRoutes, toRouteObjects } from "./route-config";
+
+/**
+ * Critical CSS Suggestions Plugin
+ *
+ * Keeps the @critical markers honest as the UI changes. After the server
+ * build, every static route from app/routes.ts (plus optional sample paths
+ * for dynamic routes) is rendered with the production server build, and
+ * the classes, ids and elements in the initial HTML are matched against the
+ * rules of each component .scss file:
+ * - used on every page        → /* @critical *\/
+ * - used on some pages        → /* @critical routes=<ids> *\/, using the
+ *   outermost matched route (e.g. a layout) whose rendered pages all use it
+ * - used on no page           → no marker (non-critical)
+ *
+ * Selectors match when all their classes, ids and element names occur in
+ * the page (pseudo-classes and attribute selectors are ignored), which
+ * over- rather than under-reports usage.
+ *
+ * Files marked @defer or @print are left alone: their media query, not
+ * the rendered markup, decides when they apply. So are stylesheets
+ * imported from components: their bare @critical already follows the
+ * routes importing them.
+ *
+ * Writes <buildDir>/critical-css-suggestions.json and logs the
+ * differences. With `write: true` the markers in the .scss files are
+ * rewritten. Disabled with `features.suggestions: false`.
+ */
+
+export interface CriticalCssSuggestionsOptions {
+  // Sample URLs for dynamic routes, e.g. ["/hello-world"]
+  paths?: string[];
+  // Rewrite the markers in the .scss files instead of only reporting
+  write?: boolean;
+}
+
+type Marker =
+  | { type: "critical" }
+  | { type: "routes"; routes: string[] }
+  | { type: "none" };
+
+interface ComponentSuggestion {
+  file: string;
+  current: Marker;
+  suggested: Marker;
+  // Paths of the pages rendering at least one of its rules
+  usedOn: string[];
+}
+
+interface PageSelectors {
+  classes: Set<string>;
+  ids: Set<string>;
+  tags: Set<string>;
+}
+
+interface RenderedPage {
+  path: string;
+  // Matched route ids, outermost first
+  routeIds: string[];
+  page: PageSelectors;
+}
+
+const SUGGESTIONS_FILE = "critical-css-suggestions.json";
+
+function formatMarker(marker: Marker, name = "critical"): string {
+  if (marker.type === "critical") return `/* @${name} */`;
+  if (marker.type === "routes") {
+    return `/* @${name} routes=${marker.routes.join(",")} */`;
+  }
+  return "(no marker)";
+}
+
+function sameMarker(a: Marker, b: Marker): boolean {
+  return formatMarker(a) === formatMarker(b);
+}
+
+// Classes, ids and element names present in the rendered document
+function collectPageSelectors(html: string): PageSelectors {
+  const page: PageSelectors = {
+    classes: new Set(),
+    ids: new Set(),
+    // Always present, whatever the markup says
+    tags: new Set(["html", "head", "body"]),
+  };
+
+  for (const [, tag] of html.matchAll(/<([a-zA-Z][\w-]*)/g)) {
+    page.tags.add(tag.toLowerCase());
+  }
+  for (const [, value] of html.matchAll(/\sclass="([^"]*)"/g)) {
+    value.split(/\s+/).forEach((name) => name && page.classes.add(name));
+  }
+  for (const [, value] of html.matchAll(/\sid="([^"]*)"/g)) {
+    page.ids.add(value);
+  }
+
+  return page;
+}
+
+function selectorMatches(selector: string, page: PageSelectors): boolean {
+  const simplified = selector
+    .replace(/\[[^\]]*\]/g, "")
+    .replace(/::?[\w-]+(\([^)]*\))?/g, "");
+
+  for (const [, name] of simplified.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g)) {
+    if (!page.classes.has(name)) return false;
+  }
+  for (const [, name] of simplified.matchAll(/#(-?[_a-zA-Z][\w-]*)/g)) {
+    if (!page.ids.has(name)) return false;
+  }
+  // Element names start a compound selector
+  for (const [, name] of simplified.matchAll(
+    /(?:^|[\s>+~])([a-zA-Z][\w-]*)/g
+  )) {
+    if (!page.tags.has(name.toLowerCase())) return false;
+  }
+
+  return true;
+}
+
+// Selectors of the rules a component emits on its own
+function componentSelectors(appRoot: string, file: string): string[] {
+  const result = sass.compile(path.join(appRoot, file), {
+    loadPaths: [appRoot],
+    style: "expanded",
+  });
+  const selectors: string[] = [];
+
+  function walk(container: Container) {
+    container.each((node) => {
+      if (isContainerAtRule(node)) {
+        walk(node);
+      } else if (node.type === "rule") {
+        selectors.push(...node.selectors);
+      }
+    });
+  }
+
+  walk(postcss.parse(result.css));
+  return selectors;
+}
+
+/**
+ * Route ids for a route-scoped marker: per page using the component, the
+ * outermost matched route whose rendered pages all use it too. Pages that
+ * were not rendered (dynamic routes) then inherit it from their layout.
+ */
+function coveringRoutes(
+  usedBy: RenderedPage[],
+  rendered: RenderedPage[]
+): string[] {
+  const used = new Set(usedBy.map((p) => p.path));
+  const ids = new Set<string>();
+
+  for (const { routeIds } of usedBy) {
+    const covering = routeIds.find((id) =>
+      rendered.every((p) => !p.routeIds.includes(id) || used.has(p.path))
+    );
+    if (covering) ids.add(covering);
+  }
+
+  return [...ids].sort();
+}
+
+async function rewriteMarker(
+  appRoot: string,
+  file: string,
+  marker: Marker,
+  markers: CriticalCssConfig["markers"]
+): Promise<void> {
+  const filePath = path.join(appRoot, file);
+  const content = await fs.readFile(filePath, "utf-8");
+  const withoutMarker = content
+    .replace(createMarkerPatterns(markers).critical, "")
+    .trimStart();
+
+  await fs.writeFile(
+    filePath,
+    marker.type === "none"
+      ? withoutMarker
+      : `${formatMarker(marker, markers.critical)}\n\n${withoutMarker}`,
+    "utf-8"
+  );
+}
+
+export function criticalCssSuggestions(
+  criticalCss: CriticalCssConfig = defineCriticalCssConfig(),
+  options: CriticalCssSuggestionsOptions = {}
+): Plugin {
+  const __dirname = path.dirname(fileURLToPath(import.meta.url));
+  const projectRoot = path.resolve(__dirname, "..");
+  const appRoot = path.join(projectRoot, criticalCss.appDir);
+  const markerName = criticalCss.markers.critical;
+
+  return {
+    name: "critical-css-suggestions",
+
+    apply: (_, { command }) =>
+      command === "build" && criticalCss.features.suggestions,
+
+    async writeBundle(outputOptions) {
+      // The server build is complete once the ssr environment is written
+      if (this.environment.name !== "ssr" || !outputOptions.dir) return;
+
+      try {
+        const build: ServerBuild = await import(
+          pathToFileURL(path.join(outputOptions.dir, "index.js")).href
+        );
+        const handler = createRequestHandler(build, "production");
+        const routeObjects = toRouteObjects(routes);
+
+        const pagePaths = [
+          ...collectStaticRoutes(routes).map((route) => route.path),
+          ...(options.paths ?? []),
+        ];
+
+        // Render every page, keeping only HTML documents
+        const rendered: RenderedPage[] = [];
+        for (const pagePath of pagePaths) {
+          const routeIds = (matchRoutes(routeObjects, pagePath) ?? []).map(
+            (match) => match.route.id ?? ""
+          );
+          const response = await handler(
+            new Request(new URL(pagePath, "http://localhost"))
+          );
+          if (
+            !response.ok ||
+            !response.headers.get("Content-Type")?.includes("text/html")
+          ) {
+            continue;
+          }
+          rendered.push({
+            path: pagePath,
+            routeIds,
+            page: collectPageSelectors(await response.text()),
+          });
+        }
+
+        if (rendered.length === 0) {
+          console.warn(
+            "[Critical CSS Suggestions] ⚠️  No page rendered, skipping"
+          );
+          return;
+        }
+
+        const scan = await scanDirectory(appRoot, criticalCss);
+        const currentMarkers = new Map<string, Marker>();
+        scan.critical.forEach((file) =>
+          currentMarkers.set(file, { type: "critical" })
+        );
+        scan.nonCritical.forEach((file) =>
+          currentMarkers.set(file, { type: "none" })
+        );
+        for (const [routeId, files] of Object.entries(scan.routes)) {
+          for (const file of files) {
+            const marker = currentMarkers.get(file);
+            currentMarkers.set(file, {
+              type: "routes",
+              routes: [
+                ...(marker?.type === "routes" ? marker.routes : []),
+                routeId,
+              ].sort(),
+            });
+          }
+        }
+
+        const suggestions: ComponentSuggestion[] = [];
+        for (const [file, current] of [...currentMarkers].sort()) {
+          const selectors = componentSelectors(appRoot, file);
+          const usedBy = rendered.filter(({ page }) =>
+            selectors.some((selector) => selectorMatches(selector, page))
+          );
+
+          const suggested: Marker =
+            usedBy.length === 0
+              ? { type: "none" }
+              : usedBy.length === rendered.length
+                ? { type: "critical" }
+                : { type: "routes", routes: coveringRoutes(usedBy, rendered) };
+
+          suggestions.push({
+            file,
+            current,
+            suggested,
+            usedOn: usedBy.map((p) => p.path),
+          });
+        }
+
+        await fs.writeFile(
+          path.join(projectRoot, criticalCss.buildDir, SUGGESTIONS_FILE),
+          JSON.stringify(
+            { pages: rendered.map((p) => p.path), components: suggestions },
+            null,
+            2
+          ),
+          "utf-8"
+        );
+
+        const changes = suggestions.filter(
+          (s) => !sameMarker(s.current, s.suggested)
+        );
+        console.log(
+          `[Critical CSS Suggestions] 🔎 Rendered ${rendered.length} page(s): ${rendered.map((p) => p.path).join(", ")}`
+        );
+        if (changes.length === 0) {
+          console.log(
+            `[Critical CSS Suggestions] ✅ All @${markerName} markers match the rendered pages`
+          );
+        }
+        for (const change of changes) {
+          console.log(
+            `[Critical CSS Suggestions] 💡 ${change.file}: ${formatMarker(change.current, markerName)} → ${formatMarker(change.suggested, markerName)}${change.usedOn.length ? ` (used on ${change.usedOn.join(", ")})` : " (not used on any page)"}`
+          );
+          if (options.write) {
+            await rewriteMarker(
+              appRoot,
+              change.file,
+              change.suggested,
+              criticalCss.markers
+            );
+          }
+        }
+        if (options.write && changes.length > 0) {
+          console.log(
+            `[Critical CSS Suggestions] ✏️  Rewrote ${changes.length} marker(s); rebuild to apply them`
+          );
+        }
+        console.log(
+          `[Critical CSS Suggestions] 🗂️  Wrote ${criticalCss.buildDir}/${SUGGESTIONS_FILE}`
+        );
+      } catch (error) {
+        console.warn(
+          "[Critical CSS Suggestions] ⚠️ Failed to analyze rendered routes:",
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    },
+  };
+}
@@ -1,7 +1,45 @@
-import type { Plugin, ResolvedConfig } from "vite";
+import type { Plugin, ResolvedConfig, Rollup } from "vite";
 import { promises as fs } from "fs";
 import path from "path";
-import { execSync } from "child_process";
+import { createHash } from "crypto";
+import routes from "../app/routes";
+import {
+  ROUTE_CRITICAL_ENTRY_PREFIX,
+  toRouteBundleName,
+} from "../app/utils/critical-css-routes";
+import {
+  CRITICAL_CSS_MANIFEST_FILE,
+  type CriticalCssManifest,
+  type CssAssetEntry,
+  type DeferredCssAssetEntry,
+  type ViewportCssVariant,
+  type ViewportCssVariants,
+} from "../app/utils/critical-css-manifest";
+import { VIEWPORTS, type Viewport } from "../app/utils/viewport";
+import {
+  defineCriticalCssConfig,
+  GENERATED_CRITICAL_DIR,
+  type CriticalCssConfig,
+} from "../app/utils/critical-css-config";
+import {
+  DEFERRED_ENTRY_PREFIX,
+  importedStylesheetFiles,
+  scanDirectory,
+  toDeferredBundleName,
+} from "./critical-css-scanner";
+import { collectRouteIds } from "./route-config";
+import { attributeCompiledCss, attributeRules } from "./css-source-attribution";
+import { compileStylesheets, ROOT_ROUTE_ID } from "./style-imports";
+import { readDesktopMinWidth, splitByViewport } from "./viewport-css-split";
+import {
+  compileScssEntry,
+  serializeSourceMap,
+  type CompiledCss,
+} from "./sass-compile";
+import {
+  checkCriticalCssBudget,
+  type InlinedBundle,
+} from "./critical-css-budget";
 
 /**
  * Phase 3: Advanced CSS Splitting via Separate Compilation
@@ -11,11 +49,51 @@ import { execSync } from "child_process";
  * Process:
  * 1. Main build compiles app/styles/index.scss → root-*.css (critical only)
  * 2. After build, compile app/styles/non-critical-entry.scss separately
+ *    (Sass JS API + PostCSS + esbuild, like Vite's own CSS; see
+ *    sass-compile.ts), failing the build on Sass errors
  * 3. Place it in build/client/assets as non-critical-*.css
- * 4. beasties-processor handles both files correctly
+ * 4. Compile each app/.internal/critical-css/_generated-critical-route-<id>.scss
+ *    into critical-<id>-*.css (skipped when the route has no components)
+ * 5. Compile each app/.internal/critical-css/_generated-deferred-<media>.scss
+ *    into deferred-<media>-*.css (@defer / @print components)
+ *    Stylesheets imported from components (incl. CSS Modules) are compiled
+ *    through Vite's pipeline and appended to the bundle their marker selects
+ *    (critical-root-*.css for @critical ones the root imports); the Vite
+ *    CSS assets holding only them are listed as replaced
+ * 6. Split root-*.css at the desktop breakpoint into viewport-mobile-*.css
+ *    and viewport-desktop-*.css, each with a viewport-<variant>-rest-*.css
+ *    holding the breakpoint rules it leaves out (skipped when root-*.css has
+ *    no breakpoint media queries)
+ * 7. Remove non-critical-*.css / critical-*.css / deferred-*.css /
+ *    viewport-*.css left over from previous builds, so only the files
+ *    referenced by the manifest remain
+ * 8. Write build/critical-css-manifest.json (file names, hashes, sizes,
+ *    route, media and viewport mapping, replaced assets) so the server never
+ *    scans the assets directory
+ * 9. Check the inlined CSS against the configured size budget, write
+ *    build/critical-css-budget.json and fail the build on violations
+ *    (root-*.css is the upper bound of both viewport variants)
+ * 10. beasties-processor handles all files correctly
+ *
+ * Paths above are the defaults; directories, entries and file name
+ * prefixes come from the critical CSS config (critical-css.config.ts).
+ * File names use the first 8 hex chars of the sha256 of the CSS content.
+ * With `build.sourcemap`, each compiled bundle gets a <file>.css.map next
+ * to it (not referenced from the CSS, which may be inlined).
  */
 
-export function cssCompiledSeparatelyPlugin(): Plugin {
+interface CompiledAsset {
+  entry: CssAssetEntry;
+  css: string;
+}
+
+const BUDGET_REPORT_FILE = "critical-css-budget.json";
+
+export function cssCompiledSeparatelyPlugin(
+  criticalCss: CriticalCssConfig = defineCriticalCssConfig()
+): Plugin {
+  const prefixes = criticalCss.assetPrefixes;
+
   let config: ResolvedConfig | null = null;
 
   return {
@@ -27,74 +105,464 @@ export function cssCompiledSeparatelyPlugin(): Plugin {
       config = resolvedConfig;
     },
 
-    async writeBundle() {
+    async writeBundle(_options, bundle) {
+      const budgetViolations: string[] = [];
+
       try {
         if (!config) return;
+        const resolvedConfig = config;
+
+        // Only run once, for the client build (assets live in build/client)
+        if (this.environment.name !== "client") return;
 
         const projectRoot = process.cwd();
-        const buildAssetsPath = path.join(projectRoot, "build/client/assets");
+        const buildPath = path.join(projectRoot, criticalCss.buildDir);
+        const buildAssetsPath = path.join(
+          buildPath,
+          "client",
+          criticalCss.assetsDir
+        );
+        const appRoot = path.join(projectRoot, criticalCss.appDir);
         const nonCriticalScssPath = path.join(
-          projectRoot,
-          "app/styles/non-critical-entry.scss"
+          appRoot,
+          criticalCss.entries.nonCritical
         );
+        const internalCriticalDir = path.join(appRoot, GENERATED_CRITICAL_DIR);
+
+        // Stylesheets imported from components, compiled by Vite
+        const scan = await scanDirectory(appRoot, criticalCss);
+        const importedCss = await compileStylesheets(
+          config,
+          appRoot,
+          importedStylesheetFiles(scan.imported)
+        );
+        const sourcemap = Boolean(resolvedConfig.build.sourcemap);
+        // A generated Sass entry (when given) followed by imported stylesheets
+        const compileBundle = async (
+          scssPath: string | null,
+          files: string[]
+        ): Promise<CompiledCss> => {
+          const compiled = scssPath
+            ? await compileScssEntry(resolvedConfig, scssPath, sourcemap)
+            : { css: "", map: null };
+          return {
+            css:
+              compiled.css +
+              files.map((file) => importedCss[file] ?? "").join(""),
+            map: compiled.map,
+          };
+        };
 
         // Check if non-critical entry exists
+        let hasNonCriticalEntry = true;
         try {
           await fs.access(nonCriticalScssPath);
         } catch {
+          hasNonCriticalEntry = false;
           console.log(
             "[CSS Compiled Separately] ℹ️  Non-critical entry not found, skipping"
           );
-          return;
         }
 
-        // Use Sass CLI to compile non-critical CSS separately
-        // Note: This requires sass to be installed globally or via node_modules
-        const sassPath = path.join(projectRoot, "node_modules/.bin/sass");
-        const appPath = path.join(projectRoot, "app");
+        // Route-critical imports are included too, for client-side navigation
+        const routeImports = Object.entries(scan.imported.critical)
+          .filter(([routeId]) => routeId !== ROOT_ROUTE_ID)
+          .flatMap(([, files]) => files);
+        const nonCritical = await writeAsset(
+          buildAssetsPath,
+          prefixes.nonCritical,
+          await compileBundle(
+            hasNonCriticalEntry ? nonCriticalScssPath : null,
+            [...new Set([...scan.imported.nonCritical, ...routeImports])]
+          ),
+          path.basename(nonCriticalScssPath)
+        );
 
+        // Compile per-route critical entries generated by critical-css-scanner
+        let routeEntries: string[] = [];
         try {
-          // Run sass compiler for non-critical styles
-          // Include --load-path to resolve imports relative to app/ directory
-          const output = execSync(
-            `${sassPath} "${nonCriticalScssPath}" --no-source-map --style=compressed --load-path="${appPath}"`,
-            { encoding: "utf-8" }
+          routeEntries = (await fs.readdir(internalCriticalDir)).filter((f) =>
+            f.startsWith(ROUTE_CRITICAL_ENTRY_PREFIX)
           );
+        } catch {
+          console.log(
+            "[CSS Compiled Separately] ℹ️  No route critical entries found, skipping"
+          );
+        }
 
-          if (!output || output.length === 0) {
-            console.log(
-              "[CSS Compiled Separately] ⚠️  No output from non-critical SCSS compilation"
-            );
-            return;
+        // Route id -> compiled bundle; "root" only holds imported stylesheets
+        const routeMapping: Record<string, CompiledAsset> = {};
+        for (const routeId of [ROOT_ROUTE_ID, ...collectRouteIds(routes)]) {
+          const bundleName = toRouteBundleName(routeId);
+          const entry = `${ROUTE_CRITICAL_ENTRY_PREFIX}${bundleName}.scss`;
+          const output = await compileBundle(
+            routeEntries.includes(entry)
+              ? path.join(internalCriticalDir, entry)
+              : null,
+            scan.imported.critical[routeId] ?? []
+          );
+          if (!output.css) continue;
+
+          const compiled = await writeAsset(
+            buildAssetsPath,
+            `${prefixes.route}${bundleName}-`,
+            output,
+            entry
+          );
+          if (compiled) {
+            routeMapping[routeId] = compiled;
           }
+        }
 
-          // Generate hash-based filename
-          const hash = Buffer.from(output).toString("base64").substring(0, 8);
-          const nonCriticalFileName = `non-critical-${hash}.css`;
-          const outputPath = path.join(buildAssetsPath, nonCriticalFileName);
+        // Compile one deferred bundle per media query
+        const deferredBundles: Array<CompiledAsset & { media: string }> = [];
+        for (const media of new Set([
+          ...Object.keys(scan.deferred),
+          ...Object.keys(scan.imported.deferred),
+        ])) {
+          const bundleName = toDeferredBundleName(media);
+          const entry = `${DEFERRED_ENTRY_PREFIX}${bundleName}.scss`;
+          const compiled = await writeAsset(
+            buildAssetsPath,
+            `${prefixes.deferred}${bundleName}-`,
+            await compileBundle(
+              scan.deferred[media]
+                ? path.join(internalCriticalDir, entry)
+                : null,
+              scan.imported.deferred[media] ?? []
+            ),
+            entry
+          );
+          if (compiled) {
+            deferredBundles.push({ ...compiled, media });
+          }
+        }
 
-          // Write non-critical CSS
-          await fs.writeFile(outputPath, output, "utf-8");
+        const rootCss = findRootCss(bundle, prefixes.root);
+        const viewports =
+          rootCss && criticalCss.features.viewportVariants
+            ? await writeViewportVariants(
+                appRoot,
+                rootCss.css,
+                buildAssetsPath,
+                prefixes.viewport
+              )
+            : null;
 
-          const sizKB = (output.length / 1024).toFixed(2);
-          console.log(`[CSS Compiled Separately] ✅ Compiled non-critical CSS`);
-          console.log(
-            `[CSS Compiled Separately]    File: ${nonCriticalFileName}`
-          );
-          console.log(`[CSS Compiled Separately]    Size: ${sizKB} KB`);
-        } catch {
-          console.warn(
-            "[CSS Compiled Separately] ⚠️  Failed to compile non-critical CSS"
+        const manifest: CriticalCssManifest = {
+          version: 4,
+          generatedAt: new Date().toISOString(),
+          critical: rootCss?.entry ?? null,
+          nonCritical: nonCritical?.entry ?? null,
+          routes: Object.fromEntries(
+            Object.entries(routeMapping).map(([id, { entry }]) => [id, entry])
+          ),
+          deferred: deferredBundles.map(
+            ({ entry, media }): DeferredCssAssetEntry => ({ ...entry, media })
+          ),
+          viewports,
+          replaced: findReplacedCss(
+            bundle,
+            appRoot,
+            importedStylesheetFiles(scan.imported),
+            prefixes.root
+          ),
+        };
+
+        await removeStaleAssets(buildAssetsPath, prefixes, [
+          ...(nonCritical ? [nonCritical.entry.file] : []),
+          ...Object.values(routeMapping).map(({ entry }) => entry.file),
+          ...deferredBundles.map(({ entry }) => entry.file),
+          ...Object.values(viewports?.variants ?? {}).flatMap(
+            ({ critical, rest }) => [
+              critical.file,
+              ...(rest ? [rest.file] : []),
+            ]
+          ),
+        ]);
+
+        await fs.writeFile(
+          path.join(buildPath, CRITICAL_CSS_MANIFEST_FILE),
+          JSON.stringify(manifest, null, 2),
+          "utf-8"
+        );
+        console.log(
+          `[CSS Compiled Separately] 🗂️  Wrote ${criticalCss.buildDir}/${CRITICAL_CSS_MANIFEST_FILE}`
+        );
+
+        if (criticalCss.budget && rootCss) {
+          // What each page inlines: root-*.css (+ the root bundle of
+          // imported stylesheets) alone, or with a route bundle
+          const { [ROOT_ROUTE_ID]: rootBundle, ...routeBundles } = routeMapping;
+          const global = [
+            { file: rootCss.entry.file, css: rootCss.css },
+            ...(rootBundle
+              ? [{ file: rootBundle.entry.file, css: rootBundle.css }]
+              : []),
+          ];
+          const inlined: InlinedBundle[] = [
+            { name: "global", files: global },
+            ...Object.entries(routeBundles).map(
+              ([routeId, { entry, css }]) => ({
+                name: routeId,
+                files: [...global, { file: entry.file, css }],
+              })
+            ),
+          ];
+          const attribution = attributeRules(appRoot, [
+            criticalCss.entries.critical.replace(/\.scss$/, ""),
+            ...routeEntries.map(
+              (entry) =>
+                `${GENERATED_CRITICAL_DIR}/${entry.replace(/\.scss$/, "")}`
+            ),
+          ]);
+          for (const [file, css] of Object.entries(importedCss)) {
+            attributeCompiledCss(attribution, file, css);
+          }
+
+          const report = checkCriticalCssBudget(
+            inlined,
+            attribution,
+            criticalCss.budget
           );
-          console.warn(
-            `[CSS Compiled Separately] This usually means the content is empty or sass failed`
+          await fs.writeFile(
+            path.join(buildPath, BUDGET_REPORT_FILE),
+            JSON.stringify(report, null, 2),
+            "utf-8"
           );
+
+          for (const bundleReport of report.bundles) {
+            console.log(
+              `[CSS Compiled Separately] 📏 Budget ${bundleReport.name}: ${(bundleReport.size / 1024).toFixed(2)} KB (gzip ${(bundleReport.gzipSize / 1024).toFixed(2)} KB)${bundleReport.violations.length ? " ❌" : " ✅"}`
+            );
+            for (const violation of bundleReport.violations) {
+              budgetViolations.push(`[${bundleReport.name}] ${violation}`);
+            }
+          }
         }
-      } catch {
+      } catch (error) {
+        // Sass errors carry the file, line and frame; anything else still
+        // fails the build rather than shipping incomplete CSS
         console.error(
-          "[CSS Compiled Separately] ❌ Unexpected error in plugin"
+          "[CSS Compiled Separately] ❌ Failed to compile the separate CSS bundles"
+        );
+        this.error(error instanceof Error ? error : String(error));
+      }
+
+      if (budgetViolations.length > 0) {
+        this.error(
+          `Critical CSS budget exceeded (see ${criticalCss.buildDir}/${BUDGET_REPORT_FILE}):\n` +
+            budgetViolations.map((v) => `  - ${v}`).join("\n")
         );
       }
     },
   };
 }
+
+function hashContent(content: string | Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function describeAsset(
+  file: string,
+  content: string | Uint8Array
+): CssAssetEntry {
+  return {
+    file,
+    hash: hashContent(content),
+    size: Buffer.byteLength(content),
+  };
+}
+
+/**
+ * Pick root-*.css from the assets emitted by this Vite build (never from
+ * the assets directory, which may still hold files from older builds)
+ */
+function findRootCss(
+  bundle: Rollup.OutputBundle,
+  rootPrefix: string
+): CompiledAsset | null {
+  const candidates = Object.values(bundle)
+    .filter(
+      (file): file is Rollup.OutputAsset =>
+        file.type === "asset" &&
+        path.basename(file.fileName).startsWith(rootPrefix) &&
+        file.fileName.endsWith(".css")
+    )
+    .sort((a, b) => a.fileName.localeCompare(b.fileName));
+
+  if (candidates.length === 0) {
+    console.warn("[CSS Compiled Separately] ⚠️  No root-*.css in bundle");
+    return null;
+  }
+
+  if (candidates.length > 1) {
+    console.warn(
+      `[CSS Compiled Separately] ⚠️  Multiple root CSS files in bundle (${candidates.map((c) => c.fileName).join(", ")}), using ${candidates[0].fileName}`
+    );
+  }
+
+  const [rootCss] = candidates;
+  const css =
+    typeof rootCss.source === "string"
+      ? rootCss.source
+      : Buffer.from(rootCss.source).toString("utf-8");
+  return {
+    entry: describeAsset(path.basename(rootCss.fileName), css),
+    css,
+  };
+}
+
+/**
+ * Delete separately compiled CSS files that are not part of this build
+ */
+async function removeStaleAssets(
+  buildAssetsPath: string,
+  prefixes: CriticalCssConfig["assetPrefixes"],
+  keep: string[]
+): Promise<void> {
+  const separatePrefixes = [
+    prefixes.nonCritical,
+    prefixes.route,
+    prefixes.deferred,
+    prefixes.viewport,
+  ];
+  const files = await fs.readdir(buildAssetsPath);
+
+  for (const file of files) {
+    // Source maps go with their stylesheet
+    const cssFile = file.replace(/\.map$/, "");
+    if (
+      cssFile.endsWith(".css") &&
+      separatePrefixes.some((prefix) => file.startsWith(prefix)) &&
+      !keep.includes(cssFile)
+    ) {
+      await fs.rm(path.join(buildAssetsPath, file));
+      console.log(`[CSS Compiled Separately] 🧹 Removed stale ${file}`);
+    }
+  }
+}
+
+/**
+ * Write the mobile / desktop variants of root-*.css and their rest as
+ * viewport-<variant>-<hash>.css / viewport-<variant>-rest-<hash>.css.
+ * Returns null when neither variant leaves anything out.
+ */
+async function writeViewportVariants(
+  appRoot: string,
+  rootCss: string,
+  buildAssetsPath: string,
+  viewportPrefix: string
+): Promise<ViewportCssVariants | null> {
+  const desktopMinWidth = await readDesktopMinWidth(appRoot);
+  const splits = VIEWPORTS.map(
+    (viewport) =>
+      [viewport, splitByViewport(rootCss, viewport, desktopMinWidth)] as const
+  );
+
+  if (splits.every(([, split]) => !split.rest.trim())) {
+    console.log(
+      "[CSS Compiled Separately] ℹ️  No breakpoint media queries in root CSS, skipping viewport variants"
+    );
+    return null;
+  }
+
+  async function write(prefix: string, css: string): Promise<CssAssetEntry> {
+    const fileName = `${prefix}${hashContent(css).substring(0, 8)}.css`;
+    await fs.writeFile(path.join(buildAssetsPath, fileName), css, "utf-8");
+    return describeAsset(fileName, css);
+  }
+
+  const variants = {} as Record<Viewport, ViewportCssVariant>;
+  for (const [viewport, split] of splits) {
+    const prefix = `${viewportPrefix}${viewport}-`;
+    variants[viewport] = {
+      critical: await write(prefix, split.critical),
+      rest: split.rest.trim()
+        ? await write(`${prefix}rest-`, split.rest)
+        : null,
+    };
+    console.log(
+      `[CSS Compiled Separately] 📱 Viewport ${viewport}: ${variants[viewport].critical.file} (${(variants[viewport].critical.size / 1024).toFixed(2)} KB)${variants[viewport].rest ? ` + async ${variants[viewport].rest.file}` : ""}`
+    );
+  }
+
+  return { desktopMinWidth, variants };
+}
+
+/**
+ * Stylesheet assets of this Vite build that only hold imported stylesheets
+ * (their rules ship in the bundles above): the chunks importing them have
+ * no other style modules. root-*.css is split by critical-css-scanner instead.
+ */
+function findReplacedCss(
+  bundle: Rollup.OutputBundle,
+  appRoot: string,
+  importedFiles: string[],
+  rootPrefix: string
+): string[] {
+  const imported = new Set(importedFiles);
+  const replaced = new Map<string, boolean>();
+
+  for (const chunk of Object.values(bundle)) {
+    if (chunk.type !== "chunk" || !chunk.viteMetadata) continue;
+
+    const onlyImported = chunk.moduleIds
+      .map((id) => id.split("?")[0])
+      .filter((id) => /\.s?css$/.test(id))
+      .every((id) => imported.has(path.relative(appRoot, id)));
+
+    for (const file of chunk.viteMetadata.importedCss) {
+      replaced.set(file, (replaced.get(file) ?? true) && onlyImported);
+    }
+  }
+
+  return [...replaced]
+    .filter(
+      ([file, isReplaced]) =>
+        isReplaced && !path.basename(file).startsWith(rootPrefix)
+    )
+    .map(([file]) => path.basename(file))
+    .sort();
+}
+
+/**
+ * Write compiled CSS to the assets directory as <prefix><hash>.css (and its
+ * source map as <prefix><hash>.css.map). Empty output (e.g. a route with no
+ * critical components) produces no file.
+ */
+async function writeAsset(
+  buildAssetsPath: string,
+  prefix: string,
+  { css: output, map }: CompiledCss,
+  label: string
+): Promise<CompiledAsset | null> {
+  if (!output || output.length === 0) {
+    console.log(
+      `[CSS Compiled Separately] ⚠️  No output from ${label} compilation`
+    );
+    return null;
+  }
+
+  // Generate content-hash-based filename
+  const hash = hashContent(output).substring(0, 8);
+  const fileName = `${prefix}${hash}.css`;
+  const outputPath = path.join(buildAssetsPath, fileName);
+
+  // Write compiled CSS
+  await fs.writeFile(outputPath, output, "utf-8");
+  if (map) {
+    await fs.writeFile(
+      `${outputPath}.map`,
+      serializeSourceMap(map, fileName, buildAssetsPath),
+      "utf-8"
+    );
+  }
+
+  const sizKB = (output.length / 1024).toFixed(2);
+  console.log(`[CSS Compiled Separately] ✅ Compiled ${label}`);
+  console.log(`[CSS Compiled Separately]    File: ${fileName}`);
+  console.log(`[CSS Compiled Separately]    Size: ${sizKB} KB`);
+
+  return { entry: describeAsset(fileName, output), css: output };
+}
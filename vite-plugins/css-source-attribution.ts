@@ -0,0 +1,195 @@
+import path from "path";
+import { pathToFileURL } from "url";
+import * as sass from "sass";
+import postcss, { type AtRule, type ChildNode, type Container } from "postcss";
+
+/**
+ * CSS Source Attribution
+ *
+ * Maps compiled CSS rules back to the .scss file that produced them.
+ *
+ * All scanned stylesheets are compiled once through the Sass JS API with a
+ * source map; PostCSS reads that map so every rule knows its origin file.
+ * Rules are keyed by their at-rule context + a single selector (or the
+ * @keyframes / @font-face name), which survives Vite's CSS minification,
+ * so the same keys can be looked up in the final root-*.css.
+ */
+
+// Rule key -> .scss files (relative to app/) that emit it
+export type RuleAttribution = Map<string, Set<string>>;
+
+// Collapse whitespace that minifiers are free to remove
+function normalize(value: string): string {
+  return value
+    .replace(/\s*([:>+~,()])\s*/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// At-rules whose children are regular rules (recursed into)
+const CONTAINER_AT_RULES = new Set(["media", "supports", "layer", "container"]);
+
+export function atRuleContext(parentContext: string, atRule: AtRule): string {
+  return `${parentContext}@${atRule.name} ${normalize(atRule.params)}/`;
+}
+
+/**
+ * Keys identifying a node: one per selector for rules, one for
+ * self-contained at-rules (@keyframes, @font-face)
+ */
+export function nodeKeys(node: ChildNode, context: string): string[] {
+  if (node.type === "rule") {
+    return node.selectors.map((selector) => `${context}${normalize(selector)}`);
+  }
+
+  if (node.type === "atrule") {
+    if (node.name.endsWith("keyframes")) {
+      return [`${context}@keyframes ${normalize(node.params)}`];
+    }
+    if (node.name === "font-face") {
+      let family = "";
+      node.walkDecls("font-family", (decl) => {
+        family = normalize(decl.value);
+      });
+      return [`${context}@font-face ${family}`];
+    }
+  }
+
+  return [];
+}
+
+export function isContainerAtRule(node: ChildNode): node is AtRule {
+  return node.type === "atrule" && CONTAINER_AT_RULES.has(node.name);
+}
+
+// Sources for rules no scanned file emits, or that several files emit
+export const UNATTRIBUTED_SOURCE = "(unattributed)";
+export const SHARED_SOURCE = "(shared)";
+
+export interface SourceRules {
+  // Bytes contributed to the stylesheet
+  size: number;
+  // Rule labels (at-rule context + selector list, @keyframes / @font-face)
+  rules: string[];
+}
+
+/**
+ * Group the rules of a compiled stylesheet by the source file emitting them
+ */
+export function groupRulesBySource(
+  css: string,
+  attribution: RuleAttribution
+): Map<string, SourceRules> {
+  const groups = new Map<string, SourceRules>();
+
+  function walk(container: Container, context: string) {
+    container.each((node) => {
+      if (isContainerAtRule(node)) {
+        walk(node, atRuleContext(context, node));
+        return;
+      }
+
+      const keys = nodeKeys(node, context);
+      const sources = new Set(
+        keys.flatMap((key) => [...(attribution.get(key) ?? [])])
+      );
+      const source =
+        sources.size === 0
+          ? UNATTRIBUTED_SOURCE
+          : sources.size === 1
+            ? [...sources][0]
+            : SHARED_SOURCE;
+
+      const group = groups.get(source) ?? { size: 0, rules: [] };
+      group.size += node.toString().length;
+      if (node.type === "rule") {
+        group.rules.push(`${context}${node.selector}`);
+      } else if (keys.length > 0) {
+        group.rules.push(keys[0]);
+      }
+      groups.set(source, group);
+    });
+  }
+
+  walk(postcss.parse(css), "");
+  return groups;
+}
+
+/**
+ * Compile the given entries (paths relative to app/, without extension) in
+ * one Sass pass and attribute every emitted rule to its source file
+ */
+export function attributeRules(
+  appRoot: string,
+  entries: string[]
+): RuleAttribution {
+  const attribution: RuleAttribution = new Map();
+  // Unique namespaces: entries may share a basename (e.g. two button.scss)
+  const source = entries
+    .map((entry, index) => `@use "${entry}" as entry${index};`)
+    .join("\n");
+
+  const result = sass.compileString(source, {
+    url: pathToFileURL(path.join(appRoot, "__css-source-attribution.scss")),
+    loadPaths: [appRoot],
+    style: "expanded",
+    sourceMap: true,
+  });
+
+  const root = postcss.parse(result.css, {
+    from: path.join(appRoot, "__css-source-attribution.css"),
+    map: { prev: result.sourceMap },
+  });
+
+  function walk(container: Container, context: string) {
+    container.each((node) => {
+      if (isContainerAtRule(node)) {
+        walk(node, atRuleContext(context, node));
+        return;
+      }
+
+      const start = node.source?.start;
+      if (!start) return;
+
+      const origin = node.source?.input.origin(start.line, start.column);
+      if (!origin || !origin.file) return;
+
+      const file = path.relative(appRoot, origin.file);
+      for (const key of nodeKeys(node, context)) {
+        const files = attribution.get(key) ?? new Set<string>();
+        files.add(file);
+        attribution.set(key, files);
+      }
+    });
+  }
+
+  walk(root, "");
+  return attribution;
+}
+
+/**
+ * Attribute every rule of already compiled CSS to `file`: for stylesheets
+ * that only get their final selectors from Vite's pipeline (CSS Modules)
+ */
+export function attributeCompiledCss(
+  attribution: RuleAttribution,
+  file: string,
+  css: string
+): void {
+  function walk(container: Container, context: string) {
+    container.each((node) => {
+      if (isContainerAtRule(node)) {
+        walk(node, atRuleContext(context, node));
+        return;
+      }
+
+      for (const key of nodeKeys(node, context)) {
+        const files = attribution.get(key) ?? new Set<string>();
+        files.add(file);
+        attribution.set(key, files);
+      }
+    });
+  }
+
+  walk(postcss.parse(css), "");
+}
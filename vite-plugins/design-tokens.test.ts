@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  DESIGN_TOKENS_FILE,
+  GENERATED_DESIGN_TOKENS_DIR,
+  generateDesignTokens,
+  loadDesignTokens,
+} from "./design-tokens";
+
+const realTokens = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../app",
+  DESIGN_TOKENS_FILE
+);
+
+let appRoot: string;
+
+// The app's tokens with `change` applied
+async function writeTokens(change: (tokens: Record<string, unknown>) => void) {
+  const tokens = JSON.parse(await fs.readFile(realTokens, "utf-8"));
+  change(tokens);
+  const file = path.join(appRoot, DESIGN_TOKENS_FILE);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(tokens));
+}
+
+before(async () => {
+  appRoot = await fs.mkdtemp(path.join(os.tmpdir(), "design-tokens-"));
+});
+
+after(async () => {
+  await fs.rm(appRoot, { recursive: true, force: true });
+});
+
+describe("design tokens", () => {
+  it("keeps the source order of [name, value] pairs in the Sass maps", async () => {
+    await writeTokens(() => {});
+    await generateDesignTokens(appRoot);
+    const sass = await fs.readFile(
+      path.join(appRoot, GENERATED_DESIGN_TOKENS_DIR, "_spacings.scss"),
+      "utf-8"
+    );
+    const map = sass.match(/\$spacings: \(\n([^)]*)\);/)?.[1] ?? "";
+    assert.deepEqual(
+      map.match(/^ {2}[\w-]+(?=:)/gm)?.map((key) => key.trim()),
+      [
+        "auto",
+        "0",
+        "25",
+        "50",
+        "75",
+        "100",
+        "125",
+        "150",
+        "200",
+        "250",
+        "300",
+        "400",
+      ]
+    );
+  });
+
+  it("rejects an object mixing numeric and named keys", async () => {
+    await writeTokens((tokens) => {
+      tokens.spacings = { auto: "auto", 0: 0 };
+    });
+    await assert.rejects(
+      loadDesignTokens(appRoot),
+      /"spacings" mixes numeric and named keys/
+    );
+  });
+
+  it("rejects malformed pairs and duplicate names", async () => {
+    await writeTokens((tokens) => {
+      tokens.gaps = [["25", "2px"], ["50"]];
+    });
+    await assert.rejects(
+      loadDesignTokens(appRoot),
+      /"gaps\[1\]" must be a \[name, value\] pair/
+    );
+
+    await writeTokens((tokens) => {
+      tokens.gaps = [
+        ["25", "2px"],
+        ["25", "4px"],
+      ];
+    });
+    await assert.rejects(
+      loadDesignTokens(appRoot),
+      /"gaps.25" is defined twice/
+    );
+  });
+});
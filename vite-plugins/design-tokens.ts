@@ -0,0 +1,713 @@
+import type { Plugin } from "vite";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  defineCriticalCssConfig,
+  type CriticalCssConfig,
+} from "../app/utils/critical-css-config";
+
+/**
+ * Design Tokens Plugin - Single source for Sass, CSS and TypeScript
+ *
+ * The tokens are defined once in app/styles/design-tokens.json and
+ * generated into:
+ * 1. One Sass partial per group (variables + maps), forwarded by the
+ *    matching app/styles/abstracts/*.scss (which keep the mixins and the
+ *    non-token lists next to them)
+ * 2. The :root custom properties (--dim--*, --dim-wb--*, --c-txt--*,
+ *    --c-bg--*, --c-br--*) and their overrides per theme, used by
+ *    app/styles/create/_root.scss (part of the critical CSS)
+ * 3. A TypeScript module of the resolved values, exposed by
+ *    app/utils/design-tokens.ts (breakpoints for matchMedia, colors, ...)
+ *
+ * Values:
+ * - `"<n>px"` is emitted in rem (1rem = 16px); breakpoints are plain px
+ *   numbers, for media queries
+ * - `"{dimensions.<key>}"` / `"{dimensionsWithBorder.<key>}"` reference a
+ *   dimension through its custom property (`var(--dim--<key>)`); a
+ *   reference to any other token is replaced by its value
+ * - anything else is written as is
+ *
+ * Groups keep their order in the Sass maps, hence in the utility cascade
+ * (.m--auto before .m--0). A group is an object, or an array of
+ * `[name, value]` pairs when it mixes numeric and named keys: JavaScript
+ * puts the numeric keys of an object first, so such an object is rejected.
+ *
+ * Themes: colors are custom properties (the Sass color variables, hence
+ * the .c-txt--* / .c-bg--* / .c-br--* utilities, are `var(--c-*--<key>)`)
+ * and each entry of `themes` overrides part of the `colors` palette:
+ * - under `:root[data-theme="<name>"]`, set by root.tsx from the user's
+ *   preference (see app/utils/theme.ts)
+ * - under `:root:not([data-theme])` inside its `media` query, when it has
+ *   one (e.g. prefers-color-scheme: dark), for visitors without preference
+ * The first theme is the default: the `colors` palette as is, without
+ * overrides or media query.
+ *
+ * Generated files (never committed to git):
+ * - app/.internal/design-tokens/_<group>.scss
+ * - app/.internal/design-tokens/_root.scss
+ * - app/.internal/design-tokens/design-tokens.ts
+ *
+ * Files are only rewritten when their content changes. In development,
+ * editing the JSON regenerates them: Vite hot-updates the stylesheets and
+ * the modules importing the tokens, and the critical CSS scanner refreshes
+ * the UtilityClass union. An invalid file fails the build (and is reported
+ * in dev, keeping the previous output).
+ */
+
+type TokenValue = string | number;
+// In source order
+type TokenGroup = Map<string, TokenValue>;
+
+export interface FontToken {
+  family: string;
+  weight: number;
+}
+
+export interface ColorPalettes {
+  text: TokenGroup;
+  background: TokenGroup;
+  border: TokenGroup;
+}
+
+export interface ThemeTokens {
+  colorScheme: "light" | "dark";
+  // Applied when it matches and no theme was chosen
+  media?: string;
+  // Overrides of the `colors` palette
+  colors?: Partial<ColorPalettes>;
+}
+
+export interface DesignTokens {
+  // Lengths in px ("2px"), exposed as --dim--<key> custom properties
+  dimensions: TokenGroup;
+  // Dimensions minus a 1px border, exposed as --dim-wb--<key>
+  dimensionsWithBorder: TokenGroup;
+  // Min-width of each breakpoint, in px
+  breakpoints: Record<string, number>;
+  // Palette of the default theme, exposed as --c-<txt|bg|br>--<key>
+  colors: ColorPalettes;
+  // Theme name -> overrides, the first one being the default
+  themes: Record<string, ThemeTokens>;
+  spacings: TokenGroup;
+  spacingsWithBorder: TokenGroup;
+  gaps: TokenGroup;
+  borderRadius: TokenGroup;
+  borderWidth: TokenGroup;
+  typography: {
+    fonts: Record<string, FontToken>;
+    sizes: TokenGroup;
+    lineHeights: TokenGroup;
+  };
+}
+
+// Source and output, relative to the app directory
+export const DESIGN_TOKENS_FILE = "styles/design-tokens.json";
+export const GENERATED_DESIGN_TOKENS_DIR = ".internal/design-tokens";
+
+// Token groups exposed as custom properties: group -> property prefix
+const CUSTOM_PROPERTIES: Record<string, string> = {
+  dimensions: "dim",
+  dimensionsWithBorder: "dim-wb",
+  "colors.text": "c-txt",
+  "colors.background": "c-bg",
+  "colors.border": "c-br",
+};
+
+// Color palette -> Sass variable prefix
+const COLOR_PALETTES: [keyof ColorPalettes, string][] = [
+  ["text", "txt"],
+  ["background", "bg"],
+  ["border", "br"],
+];
+
+const THEME_ATTRIBUTE = "data-theme";
+
+const REFERENCE = /^\{([\w.-]+)\}$/;
+// Keys JavaScript orders first in an object (array indices)
+const INTEGER_KEY = /^(0|[1-9]\d*)$/;
+const PIXELS = /^(-?\d*\.?\d+)px$/;
+const BASE_FONT_SIZE = 16;
+
+const GENERATED_HEADER = [
+  "// AUTO-GENERATED by vite-plugins/design-tokens.ts - DO NOT EDIT",
+  `// Source: app/${DESIGN_TOKENS_FILE}`,
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Check the shape of a group of plain values; returns it in source order
+function parseGroup(
+  value: unknown,
+  name: string,
+  type: "number" | "value" = "value"
+): TokenGroup {
+  let entries: [string, unknown][];
+  if (Array.isArray(value)) {
+    entries = value.map((entry, index) => {
+      if (
+        !Array.isArray(entry) ||
+        entry.length !== 2 ||
+        typeof entry[0] !== "string"
+      ) {
+        throw new Error(`"${name}[${index}]" must be a [name, value] pair`);
+      }
+      return [entry[0], entry[1]];
+    });
+  } else if (isRecord(value)) {
+    entries = Object.entries(value);
+    const numeric = entries.filter(([key]) => INTEGER_KEY.test(key)).length;
+    if (numeric > 0 && numeric < entries.length) {
+      throw new Error(
+        `"${name}" mixes numeric and named keys, which an object reorders: use an array of [name, value] pairs`
+      );
+    }
+  } else {
+    throw new Error(
+      `"${name}" must be an object or an array of [name, value] pairs`
+    );
+  }
+
+  const group: TokenGroup = new Map();
+  for (const [key, token] of entries) {
+    if (
+      typeof token !== "number" &&
+      (type === "number" || typeof token !== "string")
+    ) {
+      throw new Error(
+        `"${name}.${key}" must be a ${type === "number" ? "number" : "string or number"}`
+      );
+    }
+    if (group.has(key)) {
+      throw new Error(`"${name}.${key}" is defined twice`);
+    }
+    group.set(key, token);
+  }
+  return group;
+}
+
+function parseThemes(
+  value: unknown,
+  colors: ColorPalettes
+): Record<string, ThemeTokens> {
+  if (!isRecord(value) || Object.keys(value).length === 0) {
+    throw new Error(`"themes" must be an object with at least one theme`);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([name, theme], index) => {
+      if (
+        !isRecord(theme) ||
+        !["light", "dark"].includes(theme.colorScheme as string)
+      ) {
+        throw new Error(
+          `"themes.${name}.colorScheme" must be "light" or "dark"`
+        );
+      }
+      if (index === 0 && theme.media !== undefined) {
+        throw new Error(
+          `"themes.${name}" is the default theme: it has no media`
+        );
+      }
+      if (theme.media !== undefined && typeof theme.media !== "string") {
+        throw new Error(`"themes.${name}.media" must be a media query`);
+      }
+      const parsed: ThemeTokens = {
+        colorScheme: theme.colorScheme as ThemeTokens["colorScheme"],
+        media: theme.media,
+      };
+      if (theme.colors === undefined) return [name, parsed];
+      if (!isRecord(theme.colors)) {
+        throw new Error(`"themes.${name}.colors" must be an object`);
+      }
+      if (index === 0) {
+        throw new Error(
+          `"themes.${name}" is the default theme: it uses "colors" as is`
+        );
+      }
+      parsed.colors = {};
+      for (const [palette, overrides] of Object.entries(theme.colors)) {
+        const base = colors[palette as keyof ColorPalettes];
+        if (!base) {
+          throw new Error(`Unknown palette "themes.${name}.colors.${palette}"`);
+        }
+        const group = parseGroup(overrides, `themes.${name}.colors.${palette}`);
+        for (const key of group.keys()) {
+          if (!base.has(key)) {
+            throw new Error(
+              `"themes.${name}.colors.${palette}.${key}" is not in "colors.${palette}"`
+            );
+          }
+        }
+        parsed.colors[palette as keyof ColorPalettes] = group;
+      }
+      return [name, parsed];
+    })
+  );
+}
+
+/**
+ * Read and validate app/styles/design-tokens.json
+ */
+export async function loadDesignTokens(appRoot: string): Promise<DesignTokens> {
+  const file = path.join(appRoot, DESIGN_TOKENS_FILE);
+  const tokens: unknown = JSON.parse(await fs.readFile(file, "utf-8"));
+  if (!isRecord(tokens)) {
+    throw new Error(`${file} must contain an object`);
+  }
+
+  try {
+    const colors = isRecord(tokens.colors) ? tokens.colors : {};
+    const palettes = Object.fromEntries(
+      COLOR_PALETTES.map(([palette]) => [
+        palette,
+        parseGroup(colors[palette], `colors.${palette}`),
+      ])
+    ) as unknown as ColorPalettes;
+    const typography = isRecord(tokens.typography) ? tokens.typography : {};
+    if (!isRecord(typography.fonts)) {
+      throw new Error(`"typography.fonts" must be an object`);
+    }
+    for (const [key, font] of Object.entries(typography.fonts)) {
+      if (
+        !isRecord(font) ||
+        typeof font.family !== "string" ||
+        typeof font.weight !== "number"
+      ) {
+        throw new Error(
+          `"typography.fonts.${key}" must be { "family": string, "weight": number }`
+        );
+      }
+    }
+
+    return {
+      dimensions: parseGroup(tokens.dimensions, "dimensions"),
+      dimensionsWithBorder: parseGroup(
+        tokens.dimensionsWithBorder,
+        "dimensionsWithBorder"
+      ),
+      breakpoints: Object.fromEntries(
+        parseGroup(tokens.breakpoints, "breakpoints", "number")
+      ) as Record<string, number>,
+      colors: palettes,
+      themes: parseThemes(tokens.themes, palettes),
+      spacings: parseGroup(tokens.spacings, "spacings"),
+      spacingsWithBorder: parseGroup(
+        tokens.spacingsWithBorder,
+        "spacingsWithBorder"
+      ),
+      gaps: parseGroup(tokens.gaps, "gaps"),
+      borderRadius: parseGroup(tokens.borderRadius, "borderRadius"),
+      borderWidth: parseGroup(tokens.borderWidth, "borderWidth"),
+      typography: {
+        fonts: typography.fonts as Record<string, FontToken>,
+        sizes: parseGroup(typography.sizes, "typography.sizes"),
+        lineHeights: parseGroup(
+          typography.lineHeights,
+          "typography.lineHeights"
+        ),
+      },
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid design tokens in ${file}: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * CSS value of a token: px in rem, references resolved (`literal`: to the
+ * referenced value, never to a custom property)
+ */
+function cssValue(
+  tokens: DesignTokens,
+  value: TokenValue,
+  literal = false,
+  seen: string[] = []
+): string {
+  if (typeof value === "number") return String(value);
+
+  const reference = value.match(REFERENCE);
+  if (reference) {
+    const [group, ...keys] = reference[1].split(".");
+    if (seen.includes(reference[1])) {
+      throw new Error(
+        `Circular design token reference: ${[...seen, reference[1]].join(" -> ")}`
+      );
+    }
+    let target: unknown = tokens[group as keyof DesignTokens];
+    for (const key of keys) {
+      target =
+        target instanceof Map
+          ? target.get(key)
+          : isRecord(target)
+            ? target[key]
+            : undefined;
+    }
+    if (typeof target !== "string" && typeof target !== "number") {
+      throw new Error(`Unknown design token reference ${value}`);
+    }
+    const groupPath = [group, ...keys.slice(0, -1)].join(".");
+    if (!literal && groupPath in CUSTOM_PROPERTIES) {
+      return `var(--${CUSTOM_PROPERTIES[groupPath]}--${keys.at(-1)})`;
+    }
+    return cssValue(tokens, target, literal, [...seen, reference[1]]);
+  }
+
+  const pixels = value.match(PIXELS);
+  if (pixels) {
+    return `${Number(pixels[1]) / BASE_FONT_SIZE}rem`;
+  }
+  return value;
+}
+
+function resolveGroup(
+  tokens: DesignTokens,
+  group: TokenGroup,
+  literal = false
+): Map<string, string> {
+  return new Map(
+    [...group].map(([key, value]) => [key, cssValue(tokens, value, literal)])
+  );
+}
+
+// `var(--<prefix>--<key>)` for each token of a group
+function customPropertyRefs(
+  group: TokenGroup,
+  prefix: string
+): Map<string, string> {
+  return new Map(
+    [...group.keys()].map((key) => [key, `var(--${prefix}--${key})`])
+  );
+}
+
+// Full palette of a theme: the default colors with its overrides
+function themePalettes(tokens: DesignTokens, theme: ThemeTokens) {
+  return Object.fromEntries(
+    COLOR_PALETTES.map(([palette]) => [
+      palette,
+      Object.fromEntries(
+        resolveGroup(
+          tokens,
+          new Map([
+            ...tokens.colors[palette],
+            ...(theme.colors?.[palette] ?? []),
+          ]),
+          true
+        )
+      ),
+    ])
+  ) as Record<keyof ColorPalettes, Record<string, string>>;
+}
+
+// `--c-<txt|bg|br>--<key>: <value>;` for the given colors
+function colorProperties(
+  tokens: DesignTokens,
+  colors: Partial<ColorPalettes>,
+  indent: string
+): string[] {
+  return COLOR_PALETTES.flatMap(([palette]) =>
+    [...resolveGroup(tokens, colors[palette] ?? new Map(), true)].map(
+      ([key, value]) =>
+        `${indent}--${CUSTOM_PROPERTIES[`colors.${palette}`]}--${key}: ${value};`
+    )
+  );
+}
+
+// `$<prefix>-<key>: <value>;` for each token, then `$<map>: (<key>: $var)`
+function sassGroup(
+  tokens: DesignTokens,
+  group: TokenGroup,
+  prefix: string,
+  mapName: string,
+  customProperty?: string
+): string {
+  const resolved = customProperty
+    ? customPropertyRefs(group, customProperty)
+    : resolveGroup(tokens, group);
+  return [
+    ...[...resolved].map(([key, value]) => `$${prefix}-${key}: ${value};`),
+    "",
+    `$${mapName}: (`,
+    ...[...resolved.keys()].map((key) => `  ${key}: $${prefix}-${key},`),
+    ");",
+  ].join("\n");
+}
+
+// Plain map, for tokens without a variable of their own
+function sassMap(mapName: string, entries: [string, string][]): string {
+  return [
+    `$${mapName}: (`,
+    ...entries.map(([key, value]) => `  ${key}: ${value},`),
+    ");",
+  ].join("\n");
+}
+
+// :root custom properties, then the theme overrides
+function generateRoot(tokens: DesignTokens): string {
+  const [[, defaultTheme], ...themes] = Object.entries(tokens.themes);
+  const blocks = [
+    [
+      ":root {",
+      `  color-scheme: ${defaultTheme.colorScheme};`,
+      ...["dimensions", "dimensionsWithBorder"].flatMap((group) =>
+        [
+          ...resolveGroup(
+            tokens,
+            tokens[group as keyof DesignTokens] as TokenGroup
+          ),
+        ].map(
+          ([key, value]) => `  --${CUSTOM_PROPERTIES[group]}--${key}: ${value};`
+        )
+      ),
+      ...colorProperties(tokens, tokens.colors, "  "),
+      "}",
+    ].join("\n"),
+  ];
+
+  // Media defaults first: a chosen theme always wins
+  for (const [, theme] of themes) {
+    if (!theme.media) continue;
+    blocks.push(
+      [
+        `@media ${theme.media} {`,
+        `  :root:not([${THEME_ATTRIBUTE}]) {`,
+        `    color-scheme: ${theme.colorScheme};`,
+        ...colorProperties(tokens, theme.colors ?? {}, "    "),
+        "  }",
+        "}",
+      ].join("\n")
+    );
+  }
+  for (const [name, theme] of themes) {
+    blocks.push(
+      [
+        `:root[${THEME_ATTRIBUTE}="${name}"] {`,
+        `  color-scheme: ${theme.colorScheme};`,
+        ...colorProperties(tokens, theme.colors ?? {}, "  "),
+        "}",
+      ].join("\n")
+    );
+  }
+  return blocks.join("\n\n");
+}
+
+function generateSass(tokens: DesignTokens): Record<string, string> {
+  const { typography } = tokens;
+  const weights = [
+    ...new Set(Object.values(typography.fonts).map((font) => font.weight)),
+  ];
+
+  return {
+    dimensions: [
+      sassGroup(tokens, tokens.dimensions, "dim", "dimensions"),
+      sassGroup(
+        tokens,
+        tokens.dimensionsWithBorder,
+        "dim-wb",
+        "dimensions-w-border"
+      ),
+    ].join("\n\n"),
+
+    breakpoints: [
+      ...Object.entries(tokens.breakpoints).map(
+        ([key, value]) => `$bpval-${key}: ${value}px;`
+      ),
+      "",
+      sassMap(
+        "breakpoints",
+        Object.keys(tokens.breakpoints).map((key) => [
+          `bp-${key}`,
+          `$bpval-${key}`,
+        ])
+      ),
+      "",
+      ...Object.keys(tokens.breakpoints).map(
+        (key) => `$bp-${key}: (\n  min: $bpval-${key},\n);`
+      ),
+    ].join("\n"),
+
+    // Custom properties, resolved per theme
+    colors: COLOR_PALETTES.map(([palette, prefix]) =>
+      sassGroup(
+        tokens,
+        tokens.colors[palette],
+        prefix,
+        palette,
+        CUSTOM_PROPERTIES[`colors.${palette}`]
+      )
+    ).join("\n\n"),
+
+    spacings: [
+      sassGroup(tokens, tokens.spacings, "spacing", "spacings"),
+      sassGroup(
+        tokens,
+        tokens.spacingsWithBorder,
+        "spacing-wb",
+        "spacings-with-border"
+      ),
+      sassGroup(tokens, tokens.gaps, "gap", "gaps"),
+    ].join("\n\n"),
+
+    borders: [
+      sassGroup(tokens, tokens.borderRadius, "br", "border-radius"),
+      sassGroup(tokens, tokens.borderWidth, "b", "border-width"),
+    ].join("\n\n"),
+
+    typography: [
+      sassMap(
+        "fonts",
+        weights.map((weight) => [String(weight), String(weight)])
+      ),
+      "",
+      "// Font tuple map: (font-name, weight)",
+      sassMap(
+        "tp-fonts",
+        Object.entries(typography.fonts).map(([key, font]) => [
+          key,
+          `("${font.family}", ${font.weight})`,
+        ])
+      ),
+      "",
+      sassGroup(tokens, typography.sizes, "tp-size", "tp-sizes"),
+      "",
+      sassGroup(tokens, typography.lineHeights, "tp-line-height", "tp-ln"),
+    ].join("\n"),
+
+    root: generateRoot(tokens),
+  };
+}
+
+function generateTypeScript(tokens: DesignTokens): string {
+  // Plain objects: the order of the keys does not matter here
+  const resolved = (group: TokenGroup) =>
+    Object.fromEntries(resolveGroup(tokens, group));
+  const values = {
+    breakpoints: tokens.breakpoints,
+    dimensions: resolved(tokens.dimensions),
+    dimensionsWithBorder: resolved(tokens.dimensionsWithBorder),
+    // Custom properties, resolved per theme
+    colors: Object.fromEntries(
+      COLOR_PALETTES.map(([palette]) => [
+        palette,
+        Object.fromEntries(
+          customPropertyRefs(
+            tokens.colors[palette],
+            CUSTOM_PROPERTIES[`colors.${palette}`]
+          )
+        ),
+      ])
+    ),
+    themeNames: Object.keys(tokens.themes),
+    themes: Object.fromEntries(
+      Object.entries(tokens.themes).map(([name, theme]) => [
+        name,
+        {
+          colorScheme: theme.colorScheme,
+          media: theme.media ?? null,
+          colors: themePalettes(tokens, theme),
+        },
+      ])
+    ),
+    spacings: resolved(tokens.spacings),
+    spacingsWithBorder: resolved(tokens.spacingsWithBorder),
+    gaps: resolved(tokens.gaps),
+    borderRadius: resolved(tokens.borderRadius),
+    borderWidth: resolved(tokens.borderWidth),
+    typography: {
+      fonts: tokens.typography.fonts,
+      sizes: resolved(tokens.typography.sizes),
+      lineHeights: resolved(tokens.typography.lineHeights),
+    },
+  };
+
+  return Object.entries(values)
+    .map(
+      ([name, value]) =>
+        `export const ${name} = ${JSON.stringify(value, null, 2)} as const;`
+    )
+    .join("\n\n");
+}
+
+// Write a generated file unless it is up to date; true when written
+async function writeIfChanged(file: string, content: string): Promise<boolean> {
+  try {
+    if ((await fs.readFile(file, "utf-8")) === content) return false;
+  } catch {
+    // Not generated yet
+  }
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, content, "utf-8");
+  return true;
+}
+
+/**
+ * Generate the Sass partials and the TypeScript module; returns the number
+ * of files written
+ */
+export async function generateDesignTokens(appRoot: string): Promise<number> {
+  const tokens = await loadDesignTokens(appRoot);
+  const outputDir = path.join(appRoot, GENERATED_DESIGN_TOKENS_DIR);
+
+  const files: Record<string, string> = {};
+  for (const [name, sass] of Object.entries(generateSass(tokens))) {
+    files[`_${name}.scss`] = [...GENERATED_HEADER, "", sass, ""].join("\n");
+  }
+  files["design-tokens.ts"] = [
+    ...GENERATED_HEADER,
+    "",
+    generateTypeScript(tokens),
+    "",
+  ].join("\n");
+
+  let written = 0;
+  for (const [file, content] of Object.entries(files)) {
+    if (await writeIfChanged(path.join(outputDir, file), content)) written++;
+  }
+  return written;
+}
+
+export function designTokensPlugin(
+  criticalCss: CriticalCssConfig = defineCriticalCssConfig()
+): Plugin {
+  const appRoot = path.resolve(process.cwd(), criticalCss.appDir);
+  const tokensFile = path.join(appRoot, DESIGN_TOKENS_FILE);
+
+  return {
+    name: "design-tokens",
+
+    // Before Sass compiles and before the critical CSS scanner reads the
+    // utilities
+    async config() {
+      try {
+        const written = await generateDesignTokens(appRoot);
+        console.log(
+          `[Design Tokens] 🎨 Generated from ${criticalCss.appDir}/${DESIGN_TOKENS_FILE}${written === 0 ? " (up to date)" : ` (${written} file(s) written)`}`
+        );
+      } catch (error) {
+        throw new Error(`[Design Tokens] ❌ ${(error as Error).message}`);
+      }
+    },
+
+    configureServer(server) {
+      server.watcher.add(tokensFile);
+      server.watcher.on("change", async (file) => {
+        if (path.resolve(file) !== tokensFile) return;
+        try {
+          const written = await generateDesignTokens(appRoot);
+          if (written > 0) {
+            console.log(
+              `[Design Tokens] 🔄 Regenerated ${written} file(s) from ${criticalCss.appDir}/${DESIGN_TOKENS_FILE}`
+            );
+          }
+        } catch (error) {
+          console.error(
+            "[Design Tokens] ❌ Keeping the previous tokens:",
+            (error as Error).message
+          );
+        }
+      });
+    },
+  };
+}
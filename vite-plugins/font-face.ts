@@ -0,0 +1,152 @@
+import type { Plugin } from "vite";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  defineCriticalCssConfig,
+  type CriticalCssConfig,
+} from "../app/utils/critical-css-config";
+import {
+  FONT_FAMILIES,
+  FONTS_DIR,
+  fontHref,
+  type FontFamily,
+  type FontMetrics,
+} from "../app/utils/fonts";
+
+/**
+ * Font Face Plugin - Self-hosted fonts
+ *
+ * Generates @font-face rules for the fonts described in app/utils/fonts.ts
+ * (files committed to public/fonts/, referenced through `publicPath`):
+ * 1. One @font-face per file, with font-display and unicode-range
+ * 2. One "<family> Fallback" face per family: a local font scaled with
+ *    size-adjust / ascent / descent / line-gap overrides so the swap to the
+ *    web font causes no layout shift
+ *
+ * Generated file (never committed to git), in the app directory:
+ * - .internal/fonts/_generated-font-face.scss
+ *
+ * app/styles/index.scss uses it, so the @font-face block is part of
+ * root-*.css and inlined with the critical CSS.
+ *
+ * Missing font files fail the build (and are reported in dev).
+ */
+
+// Generated Sass, relative to the app directory (app/styles/index.scss
+// `@use`s it by relative path, so this is not configurable)
+const GENERATED_FONT_FACE_FILE = ".internal/fonts/_generated-font-face.scss";
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+// Overrides making the fallback occupy the same space as the web font
+function fallbackOverrides(font: FontMetrics, fallback: FontMetrics) {
+  const sizeAdjust =
+    font.xWidthAvg /
+    font.unitsPerEm /
+    (fallback.xWidthAvg / fallback.unitsPerEm);
+
+  return {
+    sizeAdjust: percent(sizeAdjust),
+    ascentOverride: percent(font.ascent / font.unitsPerEm / sizeAdjust),
+    descentOverride: percent(
+      Math.abs(font.descent) / font.unitsPerEm / sizeAdjust
+    ),
+    lineGapOverride: percent(font.lineGap / font.unitsPerEm / sizeAdjust),
+  };
+}
+
+function fontFaceRules(
+  criticalCss: CriticalCssConfig,
+  family: FontFamily
+): string {
+  const faces = family.faces.map((face) =>
+    [
+      "@font-face {",
+      `  font-family: "${family.family}";`,
+      `  font-style: ${face.style};`,
+      `  font-weight: ${face.weight};`,
+      `  font-display: ${family.display};`,
+      `  src: url("${fontHref(criticalCss, face)}") format("woff2");`,
+      ...(face.unicodeRange ? [`  unicode-range: ${face.unicodeRange};`] : []),
+      "}",
+    ].join("\n")
+  );
+
+  const overrides = fallbackOverrides(family.metrics, family.fallback.metrics);
+  const fallback = [
+    "@font-face {",
+    `  font-family: "${family.family} Fallback";`,
+    `  src: local("${family.fallback.local}");`,
+    `  size-adjust: ${overrides.sizeAdjust};`,
+    `  ascent-override: ${overrides.ascentOverride};`,
+    `  descent-override: ${overrides.descentOverride};`,
+    `  line-gap-override: ${overrides.lineGapOverride};`,
+    "}",
+  ].join("\n");
+
+  return [...faces, fallback].join("\n\n");
+}
+
+export function fontFacePlugin(
+  criticalCss: CriticalCssConfig = defineCriticalCssConfig()
+): Plugin {
+  const projectRoot = process.cwd();
+  const outputFile = path.join(
+    projectRoot,
+    criticalCss.appDir,
+    GENERATED_FONT_FACE_FILE
+  );
+
+  return {
+    name: "font-face",
+
+    async config(userConfig, { command }) {
+      const publicDir =
+        typeof userConfig.publicDir === "string"
+          ? userConfig.publicDir
+          : "public";
+      const fontsDir = path.resolve(projectRoot, publicDir, FONTS_DIR);
+      const missing: string[] = [];
+      for (const family of FONT_FAMILIES) {
+        for (const face of family.faces) {
+          try {
+            await fs.access(path.join(fontsDir, face.file));
+          } catch {
+            missing.push(face.file);
+          }
+        }
+      }
+
+      if (missing.length > 0) {
+        const message = `[Font Face] ❌ Missing font files in ${path.relative(projectRoot, fontsDir)}: ${missing.join(", ")}`;
+        if (command === "build") {
+          throw new Error(message);
+        }
+        console.error(message);
+      }
+
+      const content = [
+        "// AUTO-GENERATED by vite-plugins/font-face.ts - DO NOT EDIT",
+        "// Source: app/utils/fonts.ts",
+        "",
+        FONT_FAMILIES.map((family) => fontFaceRules(criticalCss, family)).join(
+          "\n\n"
+        ),
+        "",
+      ].join("\n");
+
+      await fs.mkdir(path.dirname(outputFile), { recursive: true });
+      await fs.writeFile(outputFile, content, "utf-8");
+
+      const faceCount = FONT_FAMILIES.reduce(
+        (count, family) => count + family.faces.length,
+        0
+      );
+      console.log(
+        `[Font Face] 🔤 Generated ${faceCount} @font-face rule(s) for ${FONT_FAMILIES.map((f) => f.family).join(", ")}`
+      );
+    },
+  };
+}
@@ -0,0 +1,203 @@
+import { createFilter, type Plugin, type UserConfig } from "vite";
+import { promises as fs } from "fs";
+import path from "path";
+import type { Container, Plugin as PostcssPlugin } from "postcss";
+import {
+  defineCriticalCssConfig,
+  type CriticalCssConfig,
+} from "../app/utils/critical-css-config";
+import { isContainerAtRule } from "./css-source-attribution";
+import { collectUtilityClasses, utilitySelectorClass } from "./utility-classes";
+
+/**
+ * Unused Utility Purge Plugin
+ *
+ * app/styles/create emits every combination of the design token utilities
+ * (.p--200, .pt--200, .c-bg--fourth, ...) while the components use a
+ * handful. In production builds, a PostCSS step drops the utility rules no
+ * source file uses. It is added to Vite's `css.postcss` plugins, so it runs
+ * on root-*.css before Vite hashes it, and on every separately compiled
+ * bundle (see sass-compile.ts): non-critical, route, deferred, and through
+ * root-*.css the viewport variants.
+ *
+ * - Utility classes: the classes of the rules `entries.utilities` compiles
+ *   to (see utility-classes.ts). Only rules whose selector is a single
+ *   utility class are removed; component rules are never touched.
+ * - Used classes: every class-like token of the files matching
+ *   `purge.content` (all app/**\/*.tsx by default), like Tailwind's content
+ *   scan. className strings, template literals, conditionals and strings
+ *   kept in variables all count. A token right before `${` is a prefix
+ *   (`p--${size}` keeps every .p--*).
+ * - `purge.safelist`: class names or patterns always kept.
+ *
+ * Writes <buildDir>/purged-utilities.json (removed classes and the
+ * stylesheets they were removed from) and logs a summary. Disabled with
+ * `features.purgeUtilities: false`; never applied in development.
+ */
+
+interface ClassUsage {
+  classes: Set<string>;
+  prefixes: string[];
+}
+
+interface PurgeState {
+  // Utility class names generated by styles/create
+  utilities: Set<string>;
+  isUsed: (className: string) => boolean;
+}
+
+// Vite depends on its own copy of postcss, with its own plugin type
+type VitePostcssPlugin = NonNullable<
+  Extract<NonNullable<UserConfig["css"]>["postcss"], object>["plugins"]
+>[number];
+
+const REPORT_FILE = "purged-utilities.json";
+
+// Class-like tokens; the ones directly followed by `${` are prefixes
+const CLASS_TOKEN = /[\w-]+(\$\{)?/g;
+
+async function collectClassUsage(
+  appRoot: string,
+  content: string[]
+): Promise<ClassUsage> {
+  const isContent = createFilter(content, ["**/.internal/**"], {
+    resolve: appRoot,
+  });
+  const usage: ClassUsage = { classes: new Set(), prefixes: [] };
+
+  async function walk(dirPath: string) {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== "node_modules") await walk(fullPath);
+      } else if (entry.isFile() && isContent(fullPath)) {
+        const source = await fs.readFile(fullPath, "utf-8");
+        for (const [token, template] of source.matchAll(CLASS_TOKEN)) {
+          if (template) {
+            usage.prefixes.push(token.slice(0, -2));
+          } else {
+            usage.classes.add(token);
+          }
+        }
+      }
+    }
+  }
+
+  await walk(appRoot);
+  return usage;
+}
+
+// Remove @media / @supports / ... blocks left without rules
+function removeEmptyAtRules(container: Container) {
+  container.each((node) => {
+    if (!isContainerAtRule(node)) return;
+    removeEmptyAtRules(node);
+    if (!node.nodes?.length) node.remove();
+  });
+}
+
+export function purgeUtilitiesPlugin(
+  criticalCss: CriticalCssConfig = defineCriticalCssConfig()
+): Plugin {
+  const projectRoot = process.cwd();
+  const appRoot = path.join(projectRoot, criticalCss.appDir);
+  const { safelist } = criticalCss.purge;
+
+  let state: Promise<PurgeState> | null = null;
+  // Removed class -> stylesheets (relative to the project) it was removed from
+  const removed = new Map<string, Set<string>>();
+
+  async function loadState(): Promise<PurgeState> {
+    const usage = await collectClassUsage(appRoot, criticalCss.purge.content);
+    const utilities = collectUtilityClasses(
+      appRoot,
+      criticalCss.entries.utilities
+    );
+    return {
+      utilities,
+      isUsed: (className) =>
+        usage.classes.has(className) ||
+        usage.prefixes.some((prefix) => className.startsWith(prefix)) ||
+        safelist.some((entry) =>
+          typeof entry === "string"
+            ? entry === className
+            : entry.test(className)
+        ),
+    };
+  }
+
+  const postcssPlugin: PostcssPlugin = {
+    postcssPlugin: "purge-utilities",
+    async Once(root, { result }) {
+      state ??= loadState();
+      const { utilities, isUsed } = await state;
+      const from = result.opts.from
+        ? path.relative(projectRoot, result.opts.from.split("?")[0])
+        : "(unknown)";
+
+      root.walkRules((rule) => {
+        const kept = rule.selectors.filter((selector) => {
+          const name = utilitySelectorClass(selector);
+          if (!name || !utilities.has(name) || isUsed(name)) return true;
+          const files = removed.get(name) ?? new Set<string>();
+          removed.set(name, files.add(from));
+          return false;
+        });
+
+        if (kept.length === 0) {
+          rule.remove();
+        } else if (kept.length < rule.selectors.length) {
+          rule.selectors = kept;
+        }
+      });
+      removeEmptyAtRules(root);
+    },
+  };
+
+  return {
+    name: "purge-utilities",
+
+    apply: (_, { command }) =>
+      command === "build" && criticalCss.features.purgeUtilities,
+
+    config: (): UserConfig => ({
+      css: {
+        postcss: { plugins: [postcssPlugin as unknown as VitePostcssPlugin] },
+      },
+    }),
+
+    buildStart() {
+      // Client first: its stylesheets are the ones shipped
+      if (this.environment.name !== "client") return;
+      state = null;
+      removed.clear();
+    },
+
+    async closeBundle() {
+      if (this.environment.name !== "client" || !state) return;
+
+      const { utilities } = await state;
+      const report = {
+        utilities: utilities.size,
+        kept: utilities.size - removed.size,
+        removed: Object.fromEntries(
+          [...removed]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([name, files]) => [name, [...files].sort()])
+        ),
+      };
+      await fs.writeFile(
+        path.join(projectRoot, criticalCss.buildDir, REPORT_FILE),
+        JSON.stringify(report, null, 2),
+        "utf-8"
+      );
+      console.log(
+        `[Purge Utilities] 🧹 Removed ${removed.size} unused utility class(es), kept ${report.kept} of ${utilities.size}`
+      );
+      console.log(
+        `[Purge Utilities] 🗂️  Wrote ${criticalCss.buildDir}/${REPORT_FILE}`
+      );
+    },
+  };
+}
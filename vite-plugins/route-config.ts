@@ -0,0 +1,75 @@
+import type { RouteObject } from "react-router";
+import type { RouteConfigEntry } from "@react-router/dev/routes";
+
+/**
+ * Route config helpers
+ *
+ * The critical CSS plugins work from app/routes.ts directly (route ids for
+ * route-scoped markers, URLs to preview or render), so these mirror how
+ * React Router itself reads the config.
+ */
+
+/**
+ * React Router route id of a config entry
+ * (explicit `id` option, or the file path without extension by default)
+ */
+export function routeIdOf(entry: RouteConfigEntry): string {
+  return entry.id ?? entry.file.replace(/\.[^/.]+$/, "");
+}
+
+/**
+ * Flatten app/routes.ts into the list of React Router route ids
+ */
+export function collectRouteIds(entries: RouteConfigEntry[]): string[] {
+  const ids: string[] = [];
+  for (const entry of entries) {
+    ids.push(routeIdOf(entry));
+    if (entry.children) {
+      ids.push(...collectRouteIds(entry.children));
+    }
+  }
+  return ids;
+}
+
+/**
+ * Route objects for `matchRoutes` (ids only, no modules)
+ */
+export function toRouteObjects(entries: RouteConfigEntry[]): RouteObject[] {
+  return entries.map((entry): RouteObject => {
+    if (entry.index) {
+      return { id: routeIdOf(entry), path: entry.path, index: true };
+    }
+    return {
+      id: routeIdOf(entry),
+      path: entry.path,
+      children: toRouteObjects(entry.children ?? []),
+    };
+  });
+}
+
+export interface StaticRoute {
+  path: string;
+  // Id of the leaf route rendering the page
+  routeId: string;
+}
+
+/**
+ * Pages reachable without parameters (no dynamic or splat segments)
+ */
+export function collectStaticRoutes(
+  entries: RouteConfigEntry[],
+  parent = ""
+): StaticRoute[] {
+  return entries.flatMap((entry) => {
+    const fullPath = entry.path
+      ? `${parent.replace(/\/$/, "")}/${entry.path}`
+      : parent;
+    if (fullPath.includes(":") || fullPath.includes("*")) return [];
+
+    const own =
+      entry.index || (entry.path && !entry.children)
+        ? [{ path: fullPath || "/", routeId: routeIdOf(entry) }]
+        : [];
+    return [...own, ...collectStaticRoutes(entry.children ?? [], fullPath)];
+  });
+}
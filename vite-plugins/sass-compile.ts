@@ -0,0 +1,165 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import * as sass from "sass";
+import postcss, { type AcceptedPlugin } from "postcss";
+import { transformWithEsbuild, type ResolvedConfig, type Rollup } from "vite";
+
+/**
+ * Sass entry compilation for the separately compiled CSS bundles
+ *
+ * Mirrors what Vite does to the stylesheets it bundles itself, so the
+ * non-critical, route and deferred bundles match root-*.css:
+ * 1. Sass JavaScript API, with the project's `css.preprocessorOptions.scss`
+ *    (loadPaths, string additionalData)
+ * 2. PostCSS, with the plugins of an inline `css.postcss` config
+ * 3. esbuild minification for `build.cssTarget`, which also adds the
+ *    vendor prefixes the target browsers need
+ *
+ * Source maps are chained through all three steps when requested.
+ * Compilation errors are thrown as Rollup errors (file, line, column and
+ * code frame), so a broken stylesheet fails the build instead of shipping
+ * an empty bundle.
+ */
+
+// Source map v3 as Sass, PostCSS and esbuild produce it
+export interface CssSourceMap {
+  version: number | string;
+  sources: Array<string | null>;
+  sourcesContent?: Array<string | null>;
+  names?: string[];
+  mappings: string;
+  file?: string;
+}
+
+export interface CompiledCss {
+  css: string;
+  // Sources are absolute paths
+  map: CssSourceMap | null;
+}
+
+interface ScssOptions {
+  loadPaths?: string[];
+  additionalData?: unknown;
+}
+
+function scssOptions(config: ResolvedConfig): ScssOptions {
+  return config.css.preprocessorOptions?.scss ?? {};
+}
+
+function postcssPlugins(config: ResolvedConfig): AcceptedPlugin[] {
+  const options = config.css.postcss;
+  return typeof options === "object" && options.plugins
+    ? (options.plugins as AcceptedPlugin[])
+    : [];
+}
+
+/**
+ * Compile a Sass entry like Vite's CSS pipeline would, minified
+ */
+export async function compileScssEntry(
+  config: ResolvedConfig,
+  scssPath: string,
+  sourcemap = false
+): Promise<CompiledCss> {
+  const { loadPaths = [], additionalData } = scssOptions(config);
+  const prepended = typeof additionalData === "string" ? additionalData : "";
+  const source = await fs.readFile(scssPath, "utf-8");
+
+  let sassResult: sass.CompileResult;
+  try {
+    sassResult = await sass.compileStringAsync(prepended + source, {
+      url: pathToFileURL(scssPath),
+      syntax: "scss",
+      loadPaths,
+      style: "expanded",
+      // Vite drops @charset from bundled CSS as well
+      charset: false,
+      sourceMap: sourcemap,
+      sourceMapIncludeSources: sourcemap,
+    });
+  } catch (error) {
+    throw error instanceof sass.Exception
+      ? toBuildError(error, scssPath, prepended.split("\n").length - 1)
+      : error;
+  }
+
+  let css = sassResult.css;
+  let map: CssSourceMap | null = sassResult.sourceMap
+    ? {
+        ...sassResult.sourceMap,
+        sources: sassResult.sourceMap.sources.map(toFilePath),
+      }
+    : null;
+
+  const plugins = postcssPlugins(config);
+  if (plugins.length > 0) {
+    const result = await postcss(plugins).process(css, {
+      from: scssPath,
+      map: map ? { prev: map, inline: false, annotation: false } : false,
+    });
+    css = result.css;
+    map = result.map ? result.map.toJSON() : null;
+  }
+
+  const minified = await transformWithEsbuild(
+    css,
+    scssPath,
+    {
+      loader: "css",
+      minify: true,
+      ...(config.build.cssTarget ? { target: config.build.cssTarget } : {}),
+      sourcemap,
+    },
+    map ?? undefined
+  );
+
+  return {
+    css: minified.code,
+    map: sourcemap ? minified.map : null,
+  };
+}
+
+/**
+ * Source map JSON for an asset written to `assetDir`, with its sources
+ * relative to it (as Vite writes them)
+ */
+export function serializeSourceMap(
+  map: CssSourceMap,
+  file: string,
+  assetDir: string
+): string {
+  return JSON.stringify({
+    ...map,
+    file,
+    sources: map.sources.map((source) =>
+      source ? path.relative(assetDir, toFilePath(source)) : source
+    ),
+  });
+}
+
+function toFilePath(source: string): string {
+  return source.startsWith("file:") ? fileURLToPath(source) : source;
+}
+
+/**
+ * Sass exception as a Rollup error: Vite prints the location and frame,
+ * and the build exits with a failure. Lines of the entry are shifted back
+ * by the lines of additionalData prepended to it.
+ */
+function toBuildError(
+  error: sass.Exception,
+  entryPath: string,
+  prependedLines: number
+): Rollup.RollupError {
+  const { span } = error;
+  const file = span.url ? toFilePath(span.url.href) : undefined;
+  const line = span.start.line + 1 - (file === entryPath ? prependedLines : 0);
+  return Object.assign(new Error(error.sassMessage), {
+    name: "SassError",
+    id: file,
+    loc: file ? { file, line, column: span.start.column } : undefined,
+    // The formatted excerpt and stack Sass prints after the message
+    frame: error.message.split("\n").slice(1).join("\n"),
+  });
+}
@@ -0,0 +1,178 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { preprocessCSS, transformWithEsbuild, type ResolvedConfig } from "vite";
+import type { RouteConfigEntry } from "@react-router/dev/routes";
+import { routeIdOf } from "./route-config";
+
+/**
+ * Stylesheet imports of the route module graph
+ *
+ * Components may import their styles directly (`import "./x.scss"`, or
+ * `import styles from "./x.module.scss"` for CSS Modules). Vite bundles
+ * those with the importing chunk, so they never go through the generated
+ * Sass entries. To classify them like any other component, the static
+ * imports of every route module (and of app/root.tsx) are followed through
+ * the .ts/.tsx files of app/ to find which routes use each stylesheet.
+ *
+ * Imports are read with a regex, not a parser: static `import` /
+ * `export ... from` statements with a string specifier. `import type` and
+ * dynamic `import()` are skipped (the latter is not part of first paint).
+ * Relative specifiers and the `~/` alias (tsconfig paths) are resolved;
+ * packages are ignored.
+ */
+
+// Route id React Router gives app/root.tsx, matched on every page
+export const ROOT_ROUTE_ID = "root";
+
+// Stylesheet (relative to app/) -> ids of the routes whose modules import it
+export type StyleImportGraph = Map<string, Set<string>>;
+
+const STATIC_IMPORT =
+  /^\s*(?:import|export)\s+(?!type\b)(?:[\w*{}\s,$]+\s+from\s+)?["']([^"']+)["']/gm;
+const SCRIPT_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js"];
+const STYLE_FILE = /\.s?css$/;
+
+export function isCssModule(file: string): boolean {
+  return /\.module\.s?css$/.test(file);
+}
+
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await fs.stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function resolveImport(
+  appRoot: string,
+  importer: string,
+  specifier: string
+): Promise<string | null> {
+  let base: string;
+  if (specifier.startsWith("~/")) {
+    base = path.join(appRoot, specifier.slice(2));
+  } else if (specifier.startsWith(".")) {
+    base = path.resolve(path.dirname(importer), specifier);
+  } else {
+    return null;
+  }
+
+  if (STYLE_FILE.test(base)) {
+    return (await isFile(base)) ? base : null;
+  }
+
+  const candidates = [
+    base,
+    ...SCRIPT_EXTENSIONS.map((ext) => base + ext),
+    ...SCRIPT_EXTENSIONS.map((ext) => path.join(base, `index${ext}`)),
+  ];
+  for (const candidate of candidates) {
+    if (
+      SCRIPT_EXTENSIONS.includes(path.extname(candidate)) &&
+      (await isFile(candidate))
+    ) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Map every stylesheet imported from the route module graph to the routes
+ * using it. Only component stylesheets (`isComponentStylesheet`, from the
+ * config's include / exclude globs) are kept: app/styles/ (global entries)
+ * and app/.internal/ are left out by default.
+ */
+export async function collectStyleImports(
+  appRoot: string,
+  routes: RouteConfigEntry[],
+  isComponentStylesheet: (file: string) => boolean
+): Promise<StyleImportGraph> {
+  const imports = new Map<string, Promise<string[]>>();
+  const graph: StyleImportGraph = new Map();
+
+  function importsOf(file: string): Promise<string[]> {
+    let result = imports.get(file);
+    if (!result) {
+      result = fs.readFile(file, "utf-8").then(async (source) => {
+        const resolved: string[] = [];
+        for (const [, specifier] of source.matchAll(STATIC_IMPORT)) {
+          const target = await resolveImport(appRoot, file, specifier);
+          if (target) resolved.push(target);
+        }
+        return resolved;
+      });
+      imports.set(file, result);
+    }
+    return result;
+  }
+
+  async function visit(routeId: string, file: string, seen: Set<string>) {
+    if (seen.has(file)) return;
+    seen.add(file);
+
+    for (const target of await importsOf(file)) {
+      if (!STYLE_FILE.test(target)) {
+        await visit(routeId, target, seen);
+        continue;
+      }
+
+      if (!isComponentStylesheet(target)) continue;
+      const relativePath = path.relative(appRoot, target);
+      let routeIds = graph.get(relativePath);
+      if (!routeIds) {
+        routeIds = new Set();
+        graph.set(relativePath, routeIds);
+      }
+      routeIds.add(routeId);
+    }
+  }
+
+  const modules: Array<[string, string]> = [[ROOT_ROUTE_ID, "root.tsx"]];
+  (function addRoutes(entries: RouteConfigEntry[]) {
+    for (const entry of entries) {
+      modules.push([routeIdOf(entry), entry.file]);
+      addRoutes(entry.children ?? []);
+    }
+  })(routes);
+
+  for (const [routeId, file] of modules) {
+    try {
+      await visit(routeId, path.join(appRoot, file), new Set());
+    } catch (err) {
+      console.warn(
+        `[Critical CSS Scanner] ⚠️  Failed to follow imports of ${file}:`,
+        err instanceof Error ? err.message : String(err)
+      );
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Compile imported stylesheets through Vite's CSS pipeline (Sass, PostCSS,
+ * CSS Modules scoping with the same class names as the JS build), minified
+ */
+export async function compileStylesheets(
+  config: ResolvedConfig,
+  appRoot: string,
+  files: string[]
+): Promise<Record<string, string>> {
+  const compiled: Record<string, string> = {};
+  for (const file of files) {
+    const filePath = path.join(appRoot, file);
+    const { code } = await preprocessCSS(
+      await fs.readFile(filePath, "utf-8"),
+      filePath,
+      config
+    );
+    const minified = await transformWithEsbuild(code, filePath, {
+      loader: "css",
+      minify: true,
+    });
+    compiled[file] = minified.code;
+  }
+  return compiled;
+}
@@ -0,0 +1,99 @@
+import { promises as fs } from "fs";
+import path from "path";
+import * as sass from "sass";
+import postcss, { type Container } from "postcss";
+import { isContainerAtRule } from "./css-source-attribution";
+
+/**
+ * Utility classes of the design tokens
+ *
+ * app/styles/create turns the Sass maps of app/styles/abstracts (spacings,
+ * colors, borders, flex, sizes, statuses, typography) into utility rules.
+ * Compiling its entry (`entries.utilities`) gives the exact list of
+ * utility classes, used by:
+ * - purge-utilities.ts, which drops the ones no .tsx file uses
+ * - the UtilityClass union that cx() (app/utils/cx.ts) accepts, written to
+ *   app/.internal/utilities/utility-classes.ts by critical-css-scanner at
+ *   startup and whenever a stylesheet changes in dev
+ *
+ * A utility class is a rule whose selector is a single class, optionally
+ * with pseudo-classes (`.clickable` inside @media included).
+ */
+
+// Generated union, relative to the app directory (cx.ts imports it by
+// relative path, so this is not configurable)
+export const GENERATED_UTILITY_CLASSES_FILE =
+  ".internal/utilities/utility-classes.ts";
+
+// `.name` with optional pseudo-classes / elements
+const UTILITY_SELECTOR = /^\.([\w-]+)(?:::?[\w-]+(?:\([^)]*\))?)*$/;
+
+/**
+ * Class name of a single-class selector (null for anything else)
+ */
+export function utilitySelectorClass(selector: string): string | null {
+  return selector.match(UTILITY_SELECTOR)?.[1] ?? null;
+}
+
+export function collectUtilityClasses(
+  appRoot: string,
+  entry: string
+): Set<string> {
+  const result = sass.compile(path.join(appRoot, entry), {
+    loadPaths: [appRoot],
+    style: "expanded",
+  });
+  const utilities = new Set<string>();
+
+  function walk(container: Container) {
+    container.each((node) => {
+      if (isContainerAtRule(node)) {
+        walk(node);
+      } else if (node.type === "rule") {
+        for (const selector of node.selectors) {
+          const name = utilitySelectorClass(selector);
+          if (name) utilities.add(name);
+        }
+      }
+    });
+  }
+
+  walk(postcss.parse(result.css));
+  return utilities;
+}
+
+/**
+ * Write the UtilityClass union. Returns the number of classes, or null when
+ * the file was already up to date (left untouched, so the TypeScript
+ * server does not reload it).
+ */
+export async function writeUtilityClassTypes(
+  appRoot: string,
+  entry: string
+): Promise<number | null> {
+  const classes = [...collectUtilityClasses(appRoot, entry)].sort();
+  const content = [
+    "// AUTO-GENERATED - Do not edit manually",
+    `// Source: ${path.posix.join(path.basename(appRoot), entry)} (design token utilities)`,
+    "// This file is regenerated on every yarn dev / yarn build / yarn generate",
+    "",
+    "export type UtilityClass =",
+    ...(classes.length > 0
+      ? classes.map((name) => `  | "${name}"`)
+      : ["  | never"]),
+    "",
+  ]
+    .join("\n")
+    .replace(/\n$/, ";\n");
+
+  const outputFile = path.join(appRoot, GENERATED_UTILITY_CLASSES_FILE);
+  try {
+    if ((await fs.readFile(outputFile, "utf-8")) === content) return null;
+  } catch {
+    // Not generated yet
+  }
+
+  await fs.mkdir(path.dirname(outputFile), { recursive: true });
+  await fs.writeFile(outputFile, content, "utf-8");
+  return classes.length;
+}
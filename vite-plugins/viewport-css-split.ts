@@ -0,0 +1,119 @@
+import postcss, { type AtRule, type ChildNode, type Container } from "postcss";
+import type { Viewport } from "../app/utils/viewport";
+import { DESIGN_TOKENS_FILE, loadDesignTokens } from "./design-tokens";
+
+/**
+ * Viewport CSS Split
+ *
+ * Splits the global critical CSS (root-*.css) at the desktop breakpoint:
+ * - mobile: viewports narrower than the md breakpoint ($bpval-md)
+ * - desktop: viewports from the md breakpoint up
+ *
+ * A @media rule stays in a variant when its width conditions can match
+ * that range; otherwise it moves to the variant's "rest" (loaded
+ * asynchronously, so resizing or rotating still applies it). Rules outside
+ * @media, and media queries without width conditions (hover, print, ...),
+ * are kept in both variants.
+ *
+ * Width conditions are read from min-width / max-width in px, em or rem.
+ * Anything not understood (e.g. `not`) is kept, never dropped.
+ */
+
+export interface ViewportSplit {
+  // Inlined for the variant
+  critical: string;
+  // Left out of the variant
+  rest: string;
+}
+
+// Media queries are compared in px; em / rem use the browser default size
+const BASE_FONT_SIZE = 16;
+
+/**
+ * Read the desktop breakpoint (breakpoints.md) from the design tokens
+ */
+export async function readDesktopMinWidth(appRoot: string): Promise<number> {
+  const { md } = (await loadDesignTokens(appRoot)).breakpoints;
+  if (md === undefined) {
+    throw new Error(`breakpoints.md not found in ${DESIGN_TOKENS_FILE}`);
+  }
+  return md;
+}
+
+function toPixels(value: string, unit: string): number {
+  const number = Number(value);
+  return unit.toLowerCase() === "px" ? number : number * BASE_FONT_SIZE;
+}
+
+/**
+ * Whether a media query list can match a viewport in the variant's range
+ */
+function canMatch(params: string, viewport: Viewport, desktopMinWidth: number) {
+  return params.split(",").some((query) => {
+    if (/\bnot\b/i.test(query)) return true;
+
+    let min = 0;
+    let max = Infinity;
+    for (const [, feature, value, unit] of query.matchAll(
+      /\(\s*(min|max)-width\s*:\s*([\d.]+)(px|r?em)\s*\)/gi
+    )) {
+      const pixels = toPixels(value, unit);
+      if (feature.toLowerCase() === "min") {
+        min = Math.max(min, pixels);
+      } else {
+        max = Math.min(max, pixels);
+      }
+    }
+
+    return viewport === "mobile"
+      ? min < desktopMinWidth
+      : max >= desktopMinWidth;
+  });
+}
+
+function isMedia(node: ChildNode): node is AtRule {
+  return node.type === "atrule" && node.name.toLowerCase() === "media";
+}
+
+// Remove the @media rules that cannot match, or with `keepUnmatched`
+// everything but them; containers left empty are dropped
+function filter(
+  container: Container,
+  matches: (media: AtRule) => boolean,
+  keepUnmatched: boolean
+): void {
+  container.each((node) => {
+    if (isMedia(node) && !matches(node)) {
+      if (!keepUnmatched) node.remove();
+      return;
+    }
+
+    if (node.type === "atrule" && node.nodes) {
+      filter(node, matches, keepUnmatched);
+      if (node.nodes.length === 0) node.remove();
+      return;
+    }
+
+    if (keepUnmatched) node.remove();
+  });
+}
+
+/**
+ * Split compiled CSS into the variant for `viewport` and its rest
+ */
+export function splitByViewport(
+  css: string,
+  viewport: Viewport,
+  desktopMinWidth: number
+): ViewportSplit {
+  const matches = (media: AtRule) =>
+    canMatch(media.params, viewport, desktopMinWidth);
+
+  const critical = postcss.parse(css);
+  filter(critical, matches, false);
+
+  const rest = postcss.parse(css);
+  filter(rest, matches, true);
+
+  return { critical: critical.toString(), rest: rest.toString() };
+}
@@ -3,22 +3,41 @@ import { defineConfig } from "vite";
 import tsconfigPaths from "vite-tsconfig-paths";
 import { visualizer } from "rollup-plugin-visualizer";
 import { beasties } from "vite-plugin-beasties";
+import { designTokensPlugin } from "./vite-plugins/design-tokens";
+import { fontFacePlugin } from "./vite-plugins/font-face";
 import { criticalCssScanner } from "./vite-plugins/critical-css-scanner";
+import { criticalCssInspector } from "./vite-plugins/critical-css-inspector";
 import { cssCompiledSeparatelyPlugin } from "./vite-plugins/css-compiled-separately";
+import { criticalCssSuggestions } from "./vite-plugins/critical-css-suggestions";
+import { purgeUtilitiesPlugin } from "./vite-plugins/purge-utilities";
+import criticalCssConfig from "./critical-css.config";
 import path from "path";
 
 const beastiesConfig = beasties();
 
 export default defineConfig(() => ({
   plugins: [
-    criticalCssScanner(), // Run early for critical CSS marking
+    designTokensPlugin(criticalCssConfig), // Generate token Sass / TS before Sass compiles
+    fontFacePlugin(criticalCssConfig), // Generate @font-face rules before Sass compiles
+    criticalCssScanner(criticalCssConfig), // Run early for critical CSS marking
+    criticalCssInspector(criticalCssConfig), // Dev only: /__critical-css and ?critical-css=
     reactRouter(),
     tsconfigPaths(),
     {
       ...beastiesConfig,
       apply: "build" as const,
     },
-    cssCompiledSeparatelyPlugin(), // Compile non-critical CSS separately after build
+    // Drop utility classes the TSX never uses, from every CSS bundle
+    // (purge.safelist in critical-css.config.ts)
+    purgeUtilitiesPlugin(criticalCssConfig),
+    // Compile non-critical CSS separately after build
+    // (budget in critical-css.config.ts)
+    cssCompiledSeparatelyPlugin(criticalCssConfig),
+    // Check @critical markers against the rendered routes
+    // (CRITICAL_CSS_SUGGESTIONS=write rewrites them)
+    criticalCssSuggestions(criticalCssConfig, {
+      write: process.env.CRITICAL_CSS_SUGGESTIONS === "write",
+    }),
     visualizer({
       open: true,
       gzipSize: true,
@@ -31,7 +50,7 @@ export default defineConfig(() => ({
       scss: {
         // Configure Sass to resolve imports from app/ directory
         // This allows @use "styles/abstracts/colors" to work from any component
-        loadPaths: [path.resolve(__dirname, "app")],
+        loadPaths: [path.resolve(__dirname, criticalCssConfig.appDir)],
         additionalData: `
           // In dev mode, ensure both entry points are processed
           // Critical is imported in _index.scss